@@ -0,0 +1,66 @@
+// Runs the built bundles, which CI otherwise only builds. Catches problems
+// that only appear after transpiling, like broken parameter defaults.
+import assert from 'assert';
+import { execFileSync } from 'child_process';
+import { fileURLToPath } from 'url';
+
+const requests = [];
+function fakeFetch(url, init) {
+  requests.push({ url, init });
+  const body = JSON.stringify({ user_id: '@smoke:example.com' });
+  return Promise.resolve({
+    ok: true,
+    status: 200,
+    headers: { get: () => null },
+    json: () => Promise.resolve(JSON.parse(body)),
+    text: () => Promise.resolve(body),
+  });
+}
+
+// The modern bundle and the one for older environments.
+const BUNDLES = ['../dist/matrix-blog.es2017.js', '../dist/matrix-blog.esm.js'];
+
+async function checkBundle(path) {
+  const { BlogService, MatrixClient } = await import(path);
+  requests.length = 0;
+
+  const client = new MatrixClient(
+    'example.com',
+    'https://example.com',
+    fakeFetch
+  );
+  client.setAccessToken('token');
+  new BlogService(client);
+
+  assert.strictEqual(await client.getCurrentUser(), '@smoke:example.com');
+  assert.strictEqual(requests.length, 1);
+  assert.strictEqual(
+    requests[0].url,
+    'https://example.com/_matrix/client/r0/account/whoami'
+  );
+  assert.strictEqual(requests[0].init.headers['Authorization'], 'Bearer token');
+}
+
+async function main() {
+  for (const path of BUNDLES) {
+    await checkBundle(path);
+  }
+
+  const node = await import('../dist/node.esm.js');
+  assert.strictEqual(typeof node.exportStaticSite, 'function');
+  assert.strictEqual(typeof node.createMatrixClient, 'function');
+  assert.strictEqual(typeof node.BlogService, 'function');
+
+  const cli = new URL('../dist/cli.esm.js', import.meta.url);
+  const usage = execFileSync(process.execPath, [fileURLToPath(cli), '--help'], {
+    encoding: 'utf8',
+  });
+  assert.ok(usage.startsWith('Usage: matrix-blog'));
+
+  console.log('Smoke test passed');
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
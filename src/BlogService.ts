@@ -1,44 +1,202 @@
-import { MatrixClient, MatrixError } from './matrix/MatrixClient';
+import {
+  isUnrecognizedEndpoint,
+  MatrixClient,
+  MatrixError,
+} from './matrix/MatrixClient';
 import type {
+  AvatarEvent,
   CanonicalAliasEvent,
   MembershipEvent,
   NameEvent,
   PersistedStateEvent,
+  PowerLevelEvent,
+  SpaceChildEvent,
+  SpaceHierarchyRoom,
   SpaceParentEvent,
   StateEvent,
   TextMessageEvent,
   TopicEvent,
 } from './matrix/types';
+import {
+  BlogChildEvent,
+  CHILD_CREATED_KEY,
+  CHILD_EDITED_KEY,
+  CHILD_EVENT,
+  CHILD_PUBLISHED_KEY,
+  CHILD_TAGS_KEY,
+  EditEvent,
+  isContentMessage,
+  MARKDOWN_KEY,
+  PARENT_EVENT,
+  parseComment,
+  PINNED_ORDER_PREFIX,
+  POST_CONTENT_EVENT,
+  POST_SCHEDULE_EVENT,
+  POST_STATUS_EVENT,
+  POST_TAGS_EVENT,
+  PostContentEvent,
+  PostMessageEvent,
+  PostScheduleEvent,
+  PostStatusEvent,
+  PostTagsEvent,
+  SPACE_VALUE,
+  SpaceCreateEvent,
+  TYPE_KEY,
+} from './events';
+import { mapWithConcurrency } from './concurrency';
+import { decodeBase64, encodeBase64 } from './base64';
+import { htmlToText, markdownToHtml } from './markdown';
+import { replaceMediaUrls } from './media';
+import { sanitizeHtml, SanitizeOptions } from './sanitize';
+import { createSnippets, SearchIndex, tokenize } from './search';
 import type {
+  ArchivedMedia,
+  ArchivedPost,
+  ArchivedRevision,
   Blog,
+  BlogArchive,
+  BlogCheckReport,
+  BlogImportResult,
+  BlogMember,
+  BlogRole,
+  BlogProblem,
+  BlogRepairReport,
   BlogWithPostMetadata,
+  Comment,
+  CommentPage,
+  NewBlog,
   Post,
   NewPost,
+  PageRequest,
+  PostAuthor,
   PostContent,
+  PostFilter,
+  PostLookup,
   PostMetadata,
+  PostQuery,
+  PostRevision,
+  PostSearchResult,
+  PostSort,
+  PostStatus,
+  SearchOptions,
+  TagCount,
 } from './types';
 
-const TYPE_KEY = 'type';
-const SPACE_VALUE = 'm.space';
-const CHILD_EVENT = 'm.space.child';
-const PARENT_EVENT = 'm.space.parent';
+const ROLE_POWER_LEVELS: Readonly<Record<BlogRole, number>> = {
+  owner: 100,
+  editor: 50,
+  author: 25,
+};
 
-const POST_CONTENT_EVENT = 'co.hirsz.blog.post_content';
+// Only moderators of the space may change it, everybody else can just read.
+const BLOG_POWER_LEVELS: PowerLevelEvent = {
+  users_default: 0,
+  events_default: 50,
+  state_default: 50,
+  invite: 50,
+  kick: 50,
+  ban: 50,
+  redact: 50,
+  events: {
+    // These are the server defaults, which get replaced by the events below.
+    'm.room.power_levels': 100,
+    'm.room.history_visibility': 100,
+    'm.room.tombstone': 100,
+    'm.room.server_acl': 100,
+    'm.room.encryption': 100,
+    // Authors need to link their posts to the blog.
+    [CHILD_EVENT]: ROLE_POWER_LEVELS.author,
+  },
+};
 
-interface SpaceCreateEvent {
-  [TYPE_KEY]?: string;
+// Editors manage all posts, which includes publishing them and inviting other
+// editors. The rest are the server defaults.
+const POST_POWER_LEVEL_EVENTS: Readonly<Record<string, number>> = {
+  'm.room.power_levels': ROLE_POWER_LEVELS.editor,
+  'm.room.history_visibility': ROLE_POWER_LEVELS.editor,
+  'm.room.tombstone': ROLE_POWER_LEVELS.owner,
+  'm.room.server_acl': ROLE_POWER_LEVELS.owner,
+  'm.room.encryption': ROLE_POWER_LEVELS.owner,
+};
+
+// A post in the blog listing, along with what's needed to sort it.
+interface ListedPost {
+  metadata: PostMetadata;
+  order?: string;
+  createdMs: number;
+  publishedMs?: number;
+  editedMs?: number;
+}
+
+// A problem found in a blog, along with a way to fix it if there's one.
+interface FoundProblem {
+  problem: BlogProblem;
+  fix?: () => Promise<unknown>;
 }
-interface PostContentEvent {
-  event_id: string;
+
+export interface BlogServiceOptions {
+  // How many posts to fetch at once when fetching many of them.
+  concurrency?: number;
+  // Called for posts that are skipped because they're broken, e.g. by
+  // getFullPosts or deleteBlog.
+  onPostError?: (postId: string, error: unknown) => void;
+  // How HTML read from posts and comments is sanitized. Sanitizing can be
+  // turned off by passing false, but only do that for trusted blogs.
+  sanitize?: SanitizeOptions | false;
+  // Whether to also sanitize the HTML of new and edited posts.
+  sanitizeOnWrite?: boolean;
 }
 
 export class BlogServiceError extends Error {}
 
+// The steps of creating a post, in order.
+export type PostCreationStep =
+  | 'room'
+  | 'message'
+  | 'parent'
+  | 'content'
+  | 'child';
+
+/**
+ * Thrown when a post couldn't be fully created. If it couldn't be rolled back
+ * either, the completed steps tell what was left behind.
+ */
+export class PostCreationError extends BlogServiceError {
+  constructor(
+    readonly postId: string | undefined,
+    readonly completedSteps: ReadonlyArray<PostCreationStep>,
+    readonly rolledBack: boolean,
+    readonly cause: unknown
+  ) {
+    super(
+      `Could not create the post: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+  }
+}
+
 export class BlogService {
+  private readonly concurrency: number;
+  private readonly onPostError?: (postId: string, error: unknown) => void;
+  private readonly sanitizeOptions: SanitizeOptions | false;
+  private readonly sanitizeOnWrite: boolean;
+  // Used for searching when the server can't do it.
+  private readonly searchIndexes = new Map<string, SearchIndex>();
+  private serverSearchSupported = true;
+  // Pending updates of child events, by post ID.
+  private readonly childUpdates = new Map<string, Promise<void>>();
+
   constructor(
     private readonly matrixClient: MatrixClient,
-    private readonly roomPrefix = 'blog.'
-  ) {}
+    private readonly roomPrefix = 'blog.',
+    options: BlogServiceOptions = {}
+  ) {
+    this.concurrency = options.concurrency ?? 8;
+    this.onPostError = options.onPostError;
+    this.sanitizeOptions = options.sanitize ?? {};
+    this.sanitizeOnWrite = options.sanitizeOnWrite ?? false;
+  }
 
   createLocalRoomAlias(name: string): string {
     return `${this.roomPrefix}${name}`;
@@ -57,6 +215,14 @@ export class BlogService {
     return matches[1];
   }
 
+  /**
+   * Returns the local part of a blog's alias, as accepted by createBlog.
+   */
+  getBlogAlias(alias: string): string | undefined {
+    // Blogs used to share the room prefix with posts.
+    return this.getSlugFromRoomAlias(alias) ?? /^#([^:]+)/.exec(alias)?.[1];
+  }
+
   async getBlog(id: string): Promise<Blog> {
     const stateEvents = await this.getStateEvents(id);
 
@@ -81,74 +247,386 @@ export class BlogService {
     return { id, title: name, description: topic };
   }
 
-  async getPosts(blogId: string): Promise<ReadonlyArray<PostMetadata>> {
-    const blogWithPosts = await this.getBlogWithPosts(blogId);
-    return blogWithPosts.posts;
+  async getPosts(
+    blogId: string,
+    query: PostQuery = {}
+  ): Promise<ReadonlyArray<PostMetadata>> {
+    const { posts } = await this.listPosts(blogId);
+
+    const sortedPosts = posts
+      .filter((post) => matchesFilter(post.metadata, query))
+      .sort(comparePosts(query.sort ?? 'published'));
+
+    let start = 0;
+    if (query.cursor != null) {
+      start = sortedPosts.findIndex(
+        (post) => post.metadata.id === query.cursor
+      );
+      if (start < 0) {
+        throw new BlogServiceError('Invalid cursor');
+      }
+      start++;
+    }
+    const end = query.limit != null ? start + query.limit : undefined;
+
+    return sortedPosts.slice(start, end).map((post) => post.metadata);
   }
 
-  async getFullPosts(blogId: string): Promise<ReadonlyArray<Post>> {
-    const postMetadata = await this.getPosts(blogId);
+  async getFullPosts(
+    blogId: string,
+    query: PostQuery = {}
+  ): Promise<ReadonlyArray<Post>> {
+    const postMetadata = await this.getPosts(blogId, query);
 
-    // Get the content for each post.
-    const contents = await Promise.all(
-      postMetadata.map((post) => this.getPostContent(post.id))
+    // Get the content for each post. Broken posts are skipped, so that they
+    // don't break the whole blog. checkBlog tells what's wrong with them.
+    const contents = await mapWithConcurrency(
+      postMetadata,
+      this.concurrency,
+      async (post) => {
+        try {
+          return await this.getPostContent(post.id);
+        } catch (e) {
+          if (!isBrokenPostError(e)) throw e;
+          this.onPostError?.(post.id, e);
+          return undefined;
+        }
+      }
     );
 
     // Zip the arrays together to form full posts.
-    return postMetadata.map(
-      (post, i) => Object.assign(post, contents[i]) as Post
-    );
+    return postMetadata.flatMap((post, i) => {
+      const content = contents[i];
+      return content ? [Object.assign(post, content) as Post] : [];
+    });
   }
 
   async getBlogWithPosts(id: string): Promise<BlogWithPostMetadata> {
-    const spaceSummary = await this.matrixClient.getSpaceSummary(id);
-    const blogRoom = spaceSummary.rooms.find((room) => room.room_id === id);
-    if (!blogRoom) {
-      throw new BlogServiceError('Could not find blog room');
-    }
-
-    const posts = spaceSummary.rooms
-      .filter((room) => room.room_id !== id)
-      .map((room) => ({
-        id: room.room_id,
-        title: room.name,
-        summary: room.topic,
-        slug:
-          room.canonical_alias &&
-          this.getSlugFromRoomAlias(room.canonical_alias),
-      }));
+    const { blogRoom, posts } = await this.listPosts(id);
 
     return {
       id,
       title: blogRoom.name,
       description: blogRoom.topic,
-      posts,
+      posts: [...posts]
+        .sort(comparePosts('published'))
+        .map((post) => post.metadata),
     };
   }
 
-  async getPost(postId: string): Promise<Post> {
-    const [title, summary, slug, content] = await Promise.all([
-      this.getPostTitle(postId),
-      this.getPostSummary(postId),
-      this.getPostSlug(postId),
-      this.getPostContent(postId),
-    ]);
+  async getPostsByTag(
+    blogId: string,
+    tag: string,
+    filter: PostFilter = {}
+  ): Promise<ReadonlyArray<PostMetadata>> {
+    return this.getPosts(blogId, { ...filter, tag });
+  }
+
+  /**
+   * Returns all tags used in a blog along with the number of posts that use
+   * them, most used first.
+   */
+  async getTags(
+    blogId: string,
+    filter: PostFilter = {}
+  ): Promise<ReadonlyArray<TagCount>> {
+    const posts = await this.getPosts(blogId, filter);
+
+    const counts = new Map<string, number>();
+    for (const post of posts) {
+      for (const tag of post.tags) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
 
+    return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+      (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+    );
+  }
+
+  /**
+   * Looks for inconsistencies in a blog and its posts.
+   */
+  async checkBlog(blogId: string): Promise<BlogCheckReport> {
+    const found = await this.findProblems(blogId);
     return {
-      id: postId,
-      title,
-      summary,
-      slug,
+      blogId,
+      problems: found.map(({ problem }) => problem),
+    };
+  }
+
+  /**
+   * Fixes the problems found by checkBlog where possible. With dryRun, only
+   * reports what would be fixed.
+   */
+  async repairBlog(
+    blogId: string,
+    { dryRun = false }: { dryRun?: boolean } = {}
+  ): Promise<BlogRepairReport> {
+    if (!dryRun) {
+      this.assertWritable();
+    }
+
+    const found = await this.findProblems(blogId);
+
+    const fixed: BlogProblem[] = [];
+    const remaining: BlogProblem[] = [];
+    // Fix one problem at a time, as some of them touch the same rooms.
+    for (const { problem, fix } of found) {
+      if (!fix) {
+        remaining.push(problem);
+        continue;
+      }
+      try {
+        if (!dryRun) await fix();
+        fixed.push(problem);
+      } catch (e) {
+        remaining.push(problem);
+      }
+    }
+
+    return { blogId, fixed, remaining };
+  }
+
+  /**
+   * Searches the text of the posts in a blog. Uses the server when possible,
+   * and otherwise searches locally in an index of all posts.
+   */
+  async searchPosts(
+    blogId: string,
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<ReadonlyArray<PostSearchResult>> {
+    const { limit = 10, ...filter } = options;
+    const posts = await this.getPosts(blogId, filter);
+
+    // Guests can't search on the server.
+    if (this.serverSearchSupported && !this.matrixClient.isReadOnly()) {
+      try {
+        return await this.searchOnServer(posts, query, limit);
+      } catch (e) {
+        if (!isUnrecognizedEndpoint(e)) throw e;
+        this.serverSearchSupported = false;
+      }
+    }
+
+    const index = await this.updateSearchIndex(blogId);
+    const postsById = new Map(posts.map((post) => [post.id, post]));
+    return index
+      .search(query, index.getPostIds().length)
+      .flatMap(({ id, score, snippets }) => {
+        const post = postsById.get(id);
+        return post ? [{ ...post, score, snippets }] : [];
+      })
+      .slice(0, limit);
+  }
+
+  /**
+   * Exports a blog with all of its posts, their revisions and the media they
+   * use, e.g. to move it to another homeserver.
+   */
+  async exportBlog(blogId: string): Promise<BlogArchive> {
+    const [blog, stateEvents] = await Promise.all([
+      this.getBlog(blogId),
+      this.getStateEvents(blogId),
+    ]);
+    const aliasEvent = stateEvents.find(
+      (e) => e.type === 'm.room.canonical_alias'
+    ) as PersistedStateEvent<CanonicalAliasEvent> | undefined;
+    const alias = aliasEvent?.content.alias;
+
+    // Oldest first, so that importing keeps the order.
+    const postMetadata = [
+      ...(await this.getPosts(blogId, { sort: 'created' })),
+    ].reverse();
+
+    // Unlike getFullPosts, broken posts fail the export, so that they don't
+    // go missing from the archive unnoticed. checkBlog tells what's wrong.
+    const posts = await mapWithConcurrency(
+      postMetadata,
+      this.concurrency,
+      async (post) => {
+        try {
+          return { ...post, ...(await this.getPostContent(post.id)) } as Post;
+        } catch (e) {
+          if (!isBrokenPostError(e)) throw e;
+          throw new BlogServiceError(
+            `Could not export post ${post.id}: ${
+              e instanceof Error ? e.message : String(e)
+            }`
+          );
+        }
+      }
+    );
+    const revisions = await mapWithConcurrency(
+      posts,
+      this.concurrency,
+      (post) => this.getPostRevisions(post.id)
+    );
+
+    // Turn the media URLs back into mxc:// URIs, noting them on the way.
+    const mediaUris = new Set<string>();
+    const toMxcUri = (url: string) => {
+      const mxcUri = this.matrixClient.getMxcUri(url);
+      if (mxcUri) mediaUris.add(mxcUri);
+      return mxcUri;
+    };
+    const toArchivedContent = <T extends { html: string; markdown?: string }>(
+      content: T
+    ): T => ({
       ...content,
+      html: replaceMediaUrls(content.html, toMxcUri),
+      markdown:
+        content.markdown && replaceMarkdownUrls(content.markdown, toMxcUri),
+    });
+
+    const archivedPosts = posts.map(
+      (post, i): ArchivedPost => ({
+        ...toArchivedContent({
+          text: post.text,
+          html: post.html,
+          markdown: post.markdown,
+        }),
+        title: post.title,
+        summary: post.summary,
+        slug: post.slug,
+        status: post.status,
+        tags: post.tags,
+        pinned: post.pinned,
+        cover_image: post.cover_image && toMxcUri(post.cover_image),
+        author: post.author.id,
+        created_ms: post.created_ms,
+        edited_ms: post.edited_ms,
+        published_ms: post.published_ms,
+        scheduled_ms: post.scheduled_ms,
+        revisions: revisions[i].map((revision) =>
+          toArchivedContent({
+            text: revision.text,
+            html: revision.html,
+            markdown: revision.markdown,
+            sender: revision.sender,
+            created_ms: revision.created_ms,
+          })
+        ),
+      })
+    );
+
+    const media: Record<string, ArchivedMedia> = {};
+    await mapWithConcurrency(
+      Array.from(mediaUris),
+      this.concurrency,
+      async (mxcUri) => {
+        const { data, contentType } = await this.matrixClient.downloadMedia(
+          mxcUri
+        );
+        media[mxcUri] = { content_type: contentType, data: encodeBase64(data) };
+      }
+    );
+
+    return {
+      version: 1,
+      exported_ms: Date.now(),
+      blog: {
+        title: blog.title ?? '',
+        description: blog.description,
+        alias: alias && this.getBlogAlias(alias),
+      },
+      posts: archivedPosts,
+      media,
     };
   }
 
-  async addPost(blogId: string, post: NewPost): Promise<PostMetadata> {
-    const postId = await this.matrixClient.createRoom({
-      name: post.title,
-      topic: post.summary,
-      room_alias_name: post.slug && this.createLocalRoomAlias(post.slug),
+  /**
+   * Recreates an exported blog, either as a new blog or in an existing one.
+   * Revisions are replayed as edits, but their timestamps and authors can't
+   * be kept, as everything is sent again by the current user.
+   */
+  async importBlog(
+    archive: BlogArchive,
+    options: { targetBlogId?: string } = {}
+  ): Promise<BlogImportResult> {
+    this.assertWritable();
+
+    if (archive.version !== 1) {
+      throw new BlogServiceError(
+        `Unsupported archive version: ${String(archive.version)}`
+      );
+    }
+
+    const blogId =
+      options.targetBlogId ?? (await this.createBlog(archive.blog)).id;
+
+    // Upload the media first, so that posts can use it.
+    const mediaUris = new Map<string, string>();
+    await mapWithConcurrency(
+      Object.entries(archive.media),
+      this.concurrency,
+      async ([mxcUri, media]) => {
+        const newMxcUri = await this.matrixClient.uploadMedia(
+          decodeBase64(media.data),
+          media.content_type
+        );
+        mediaUris.set(mxcUri, newMxcUri);
+      }
+    );
+    const toNewUri = (mxcUri: string) => mediaUris.get(mxcUri);
+    const toContent = (revision: ArchivedRevision) =>
+      revision.markdown != null
+        ? { markdown: replaceMarkdownUrls(revision.markdown, toNewUri) }
+        : {
+            text: revision.text,
+            html: replaceMediaUrls(revision.html, toNewUri),
+          };
+
+    // One post at a time, to keep them in order.
+    const posts: PostMetadata[] = [];
+    for (const post of archive.posts) {
+      const [original, ...edits] = post.revisions.length
+        ? post.revisions
+        : [{ ...post, sender: post.author }];
+
+      const metadata = await this.addPost(blogId, {
+        title: post.title,
+        summary: post.summary,
+        slug: post.slug,
+        status: post.status,
+        tags: post.tags,
+        cover_image: post.cover_image && toNewUri(post.cover_image),
+        ...toContent(original),
+      });
+      for (const edit of edits) {
+        await this.editPost(metadata.id, toContent(edit));
+      }
+
+      if (post.scheduled_ms != null) {
+        await this.schedulePost(metadata.id, post.scheduled_ms);
+      }
+      if (post.pinned) {
+        await this.pinPost(metadata.id);
+      }
+      posts.push({ ...metadata, pinned: post.pinned });
+    }
+
+    return { blogId, posts };
+  }
+
+  async createBlog(blog: NewBlog): Promise<Blog> {
+    this.assertWritable();
+
+    // Post slugs own the aliases with the room prefix, so blogs can't use them.
+    if (blog.alias?.startsWith(this.roomPrefix)) {
+      throw new BlogServiceError(
+        `The blog alias can't start with "${this.roomPrefix}"`
+      );
+    }
+
+    const blogId = await this.matrixClient.createRoom({
+      name: blog.title,
+      topic: blog.description,
+      room_alias_name: blog.alias,
       preset: 'public_chat',
+      creation_content: { [TYPE_KEY]: SPACE_VALUE },
+      power_level_content_override: BLOG_POWER_LEVELS,
       initial_state: [
         {
           type: 'm.room.history_visibility',
@@ -157,65 +635,469 @@ export class BlogService {
       ],
     });
 
-    const message = this.matrixClient.sendMessageEvent(
-      postId,
-      'm.room.message',
-      {
-        msgtype: 'm.text',
-        format: 'org.matrix.custom.html',
-        body: post.text,
-        formatted_body: post.html,
+    return {
+      id: blogId,
+      title: blog.title,
+      description: blog.description,
+    };
+  }
+
+  async updateBlog(blogId: string, blog: Partial<NewBlog>): Promise<void> {
+    this.assertWritable();
+
+    // Make sure we're not touching a room that's not a blog.
+    await this.getStateEvents(blogId);
+
+    const promises: Array<Promise<unknown>> = [];
+
+    if (blog.title != null) {
+      promises.push(
+        this.matrixClient.sendStateEvent(blogId, 'm.room.name', '', {
+          name: blog.title,
+        })
+      );
+    }
+    if (blog.description != null) {
+      promises.push(
+        this.matrixClient.sendStateEvent(blogId, 'm.room.topic', '', {
+          topic: blog.description,
+        })
+      );
+    }
+
+    await Promise.all(promises);
+  }
+
+  /**
+   * Deletes a blog along with its posts. Returns the IDs of the posts that
+   * could not be deleted, which are also passed to `onPostError`.
+   */
+  async deleteBlog(
+    blogId: string,
+    reason = 'Deleting blog'
+  ): Promise<ReadonlyArray<string>> {
+    this.assertWritable();
+
+    const stateEvents = await this.getStateEvents(blogId);
+
+    // Delete all posts first, so that they don't end up orphaned.
+    const failedPostIds: string[] = [];
+    for (const postId of await this.getPostIds(stateEvents)) {
+      try {
+        await this.deletePost(postId, reason);
+      } catch (e) {
+        if (!isBrokenPostError(e)) throw e;
+        this.onPostError?.(postId, e);
+        failedPostIds.push(postId);
       }
+    }
+
+    await this.abandonRoom(blogId, stateEvents, reason);
+    return failedPostIds;
+  }
+
+  /**
+   * Returns everyone who has a role in the blog.
+   */
+  async getMembers(blogId: string): Promise<ReadonlyArray<BlogMember>> {
+    const stateEvents = await this.getStateEvents(blogId);
+    const { users = {} } = findPowerLevels(stateEvents);
+
+    return Object.entries(users).flatMap(([userId, level]) => {
+      const role = getRole(level);
+      return role ? [{ ...this.getAuthor(stateEvents, userId), role }] : [];
+    });
+  }
+
+  /**
+   * Invites a user to write for the blog. They can start once they accept the
+   * invitation with joinBlog.
+   */
+  async addAuthor(
+    blogId: string,
+    userId: string,
+    role: BlogRole = 'author'
+  ): Promise<void> {
+    this.assertWritable();
+
+    const stateEvents = await this.getStateEvents(blogId);
+    if (!isMember(stateEvents, userId)) {
+      await this.matrixClient.inviteUser(blogId, userId);
+    }
+    await this.applyRole(blogId, userId, role);
+  }
+
+  /**
+   * Takes away the role of a user and kicks them from the blog, along with the
+   * posts of others they were invited to. Their own posts stay in the blog, but
+   * they can still edit them, as nobody can take the power over a room from its
+   * creator. Delete those posts to take them down.
+   */
+  async removeAuthor(
+    blogId: string,
+    userId: string,
+    reason = 'Removed from the blog'
+  ): Promise<void> {
+    this.assertWritable();
+
+    await this.applyRole(blogId, userId, undefined, reason);
+
+    const stateEvents = await this.getStateEvents(blogId);
+    if (isMember(stateEvents, userId)) {
+      await this.matrixClient.kickUser(blogId, userId, reason);
+    }
+  }
+
+  /**
+   * Changes the role of a user in the blog. Authors can only edit their own
+   * posts, while owners and editors get power over every post room.
+   */
+  async setRole(blogId: string, userId: string, role: BlogRole): Promise<void> {
+    this.assertWritable();
+
+    await this.applyRole(blogId, userId, role);
+  }
+
+  /**
+   * Accepts an invitation to write for a blog, along with the invitations to
+   * its posts.
+   */
+  async joinBlog(blogId: string): Promise<void> {
+    this.assertWritable();
+
+    await this.matrixClient.joinRoom(blogId);
+
+    const [stateEvents, currentUserId] = await Promise.all([
+      this.getStateEvents(blogId),
+      this.matrixClient.getCurrentUser(),
+    ]);
+    const role = getRole(
+      findPowerLevels(stateEvents).users?.[currentUserId] ?? 0
     );
+    if (role !== 'owner' && role !== 'editor') return;
 
-    const serverName = this.matrixClient.getServerName();
-    const child = this.matrixClient.sendStateEvent(
-      blogId,
-      CHILD_EVENT,
-      postId,
-      {
-        via: [serverName],
+    // Post rooms can't be read before joining them, so every link is followed.
+    await mapWithConcurrency(
+      getChildEvents(stateEvents).map((e) => e.state_key),
+      this.concurrency,
+      async (postId) => {
+        try {
+          await this.matrixClient.joinRoom(postId);
+        } catch (e) {
+          // Posts that weren't shared can't be joined.
+          if (!isBrokenPostError(e)) throw e;
+        }
       }
     );
-    const parent = this.matrixClient.sendStateEvent(
-      postId,
-      PARENT_EVENT,
-      blogId,
-      {
-        via: [serverName],
-        canonical: true,
+  }
+
+  /**
+   * Sets the manual order of posts. Posts that aren't listed lose their place
+   * and come after the listed ones. Pinned posts stay pinned.
+   */
+  async reorderPosts(
+    blogId: string,
+    postIds: ReadonlyArray<string>
+  ): Promise<void> {
+    this.assertWritable();
+
+    const stateEvents = await this.getStateEvents(blogId);
+    const childEvents = stateEvents.filter(
+      (e) =>
+        e.type === CHILD_EVENT &&
+        (e as PersistedStateEvent<Partial<SpaceChildEvent>>).content.via
+    ) as ReadonlyArray<PersistedStateEvent<BlogChildEvent>>;
+
+    const changedEvents = childEvents.flatMap((event) => {
+      const index = postIds.indexOf(event.state_key);
+      const pinned = isPinned(event.content.order);
+      const position = index >= 0 ? createOrder(index) : '';
+      const order = pinned ? `${PINNED_ORDER_PREFIX}${position}` : position;
+
+      if ((event.content.order ?? '') === order) return [];
+      return [
+        { ...event, content: { ...event.content, order: order || undefined } },
+      ];
+    });
+
+    await mapWithConcurrency(changedEvents, this.concurrency, (event) =>
+      this.matrixClient.sendStateEvent(
+        blogId,
+        CHILD_EVENT,
+        event.state_key,
+        event.content
+      )
+    );
+  }
+
+  async pinPost(postId: string): Promise<void> {
+    this.assertWritable();
+
+    await this.updateChildEvent(postId, (content) =>
+      isPinned(content.order)
+        ? content
+        : { ...content, order: `${PINNED_ORDER_PREFIX}${content.order ?? ''}` }
+    );
+  }
+
+  async unpinPost(postId: string): Promise<void> {
+    this.assertWritable();
+
+    await this.updateChildEvent(postId, (content) =>
+      isPinned(content.order)
+        ? { ...content, order: content.order?.slice(1) || undefined }
+        : content
+    );
+  }
+
+  async getPost(postId: string): Promise<Post> {
+    const [title, summary, slug, status, tags, pinned, coverImage, content] =
+      await Promise.all([
+        this.getPostTitle(postId),
+        this.getPostSummary(postId),
+        this.getPostSlug(postId),
+        this.getPostStatus(postId),
+        this.getPostTags(postId),
+        this.getPostPinned(postId),
+        this.getPostCoverImage(postId),
+        this.getPostContent(postId),
+      ]);
+
+    return {
+      id: postId,
+      title,
+      summary,
+      slug,
+      status,
+      tags,
+      pinned,
+      cover_image: coverImage,
+      ...content,
+    };
+  }
+
+  /**
+   * Returns the ID of the blog that a post links to.
+   */
+  async getPostBlogId(postId: string): Promise<string> {
+    const { state_key: blogId } = await this.getParentEvent(postId);
+    return blogId;
+  }
+
+  async getPostBySlug(
+    slug: string,
+    filter: PostFilter = {}
+  ): Promise<PostLookup | undefined> {
+    let postId: string;
+    try {
+      postId = await this.matrixClient.resolveRoomAlias(
+        this.createRoomAlias(slug)
+      );
+    } catch (e) {
+      if (e instanceof MatrixError && e.status === 404) {
+        return undefined;
       }
+      throw e;
+    }
+
+    // Drafts keep their slugs, but only their authors can read them.
+    let post: Post;
+    try {
+      post = await this.getPost(postId);
+    } catch (e) {
+      if (e instanceof MatrixError && e.status === 403) {
+        return undefined;
+      }
+      // Older blogs have aliases that look like slugs, but they aren't posts.
+      if (e instanceof BlogServiceError && (await this.isBlog(postId))) {
+        return undefined;
+      }
+      throw e;
+    }
+
+    // The post doesn't have a slug anymore, so it can't be reached.
+    if (!post.slug) return undefined;
+    if (!matchesFilter(post, filter)) return undefined;
+
+    return {
+      post,
+      redirect: post.slug !== slug ? post.slug : undefined,
+    };
+  }
+
+  async addPost(blogId: string, post: NewPost): Promise<PostMetadata> {
+    this.assertWritable();
+
+    const status = post.status ?? 'draft';
+    const published = status === 'published';
+    const tags = normalizeTags(post.tags ?? []);
+    const messageContent = this.toMessageContent(post);
+
+    // Owners and editors of the blog can edit all of its posts.
+    const [blogStateEvents, currentUserId] = await Promise.all([
+      this.getStateEvents(blogId),
+      this.matrixClient.getCurrentUser(),
+    ]);
+    const managers = getManagers(findPowerLevels(blogStateEvents)).filter(
+      ([userId]) => userId !== currentUserId
     );
 
-    const [messageEventId] = await Promise.all([message, child, parent]);
+    const completedSteps: PostCreationStep[] = [];
+    let postId: string | undefined;
+    try {
+      // Drafts are private until they get published.
+      postId = await this.matrixClient.createRoom({
+        name: post.title,
+        topic: post.summary,
+        room_alias_name: post.slug && this.createLocalRoomAlias(post.slug),
+        preset: published ? 'public_chat' : 'private_chat',
+        invite: managers.map(([userId]) => userId),
+        power_level_content_override: {
+          users: {
+            [currentUserId]: ROLE_POWER_LEVELS.owner,
+            ...Object.fromEntries(managers),
+          },
+          events: POST_POWER_LEVEL_EVENTS,
+        },
+        initial_state: [
+          {
+            type: 'm.room.history_visibility',
+            content: {
+              history_visibility: published ? 'world_readable' : 'shared',
+            },
+          },
+          {
+            type: POST_STATUS_EVENT,
+            content: { status },
+          },
+          {
+            type: POST_TAGS_EVENT,
+            content: { tags },
+          },
+          ...(post.cover_image
+            ? [{ type: 'm.room.avatar', content: { url: post.cover_image } }]
+            : []),
+        ],
+      });
+      completedSteps.push('room');
 
-    // Mark the message event ID.
-    await this.matrixClient.sendStateEvent(postId, POST_CONTENT_EVENT, '', {
-      event_id: messageEventId,
-    });
+      const messageEventId = await this.matrixClient.sendMessageEvent(
+        postId,
+        'm.room.message',
+        { ...messageContent }
+      );
+      const { origin_server_ts: createdMs } = await this.matrixClient.getEvent(
+        postId,
+        messageEventId
+      );
+      completedSteps.push('message');
+
+      const serverName = this.matrixClient.getServerName();
+      await this.matrixClient.sendStateEvent(postId, PARENT_EVENT, blogId, {
+        via: [serverName],
+        canonical: true,
+      });
+      completedSteps.push('parent');
+
+      // Mark the message event ID.
+      await this.matrixClient.sendStateEvent(postId, POST_CONTENT_EVENT, '', {
+        event_id: messageEventId,
+      });
+      completedSteps.push('content');
+
+      // Add the post to the blog last, so that it's only listed once it's
+      // complete.
+      await this.matrixClient.sendStateEvent(blogId, CHILD_EVENT, postId, {
+        via: [serverName],
+        [CHILD_TAGS_KEY]: tags,
+        [CHILD_CREATED_KEY]: createdMs,
+        [CHILD_PUBLISHED_KEY]: published ? createdMs : undefined,
+      });
+      completedSteps.push('child');
+    } catch (e) {
+      const rolledBack =
+        postId == null ||
+        (await this.rollBackPost(blogId, postId, completedSteps));
+      throw new PostCreationError(postId, completedSteps, rolledBack, e);
+    }
 
     return {
       id: postId,
       title: post.title,
       summary: post.summary,
       slug: post.slug,
+      status,
+      tags,
+      pinned: false,
+      cover_image:
+        post.cover_image && this.matrixClient.getDownloadUrl(post.cover_image),
     };
   }
 
+  async publishPost(postId: string): Promise<void> {
+    this.assertWritable();
+    await this.acceptPostInvite(postId);
+
+    await this.setPostStatus(postId, 'published');
+
+    // A published post has nothing left to wait for.
+    if ((await this.getPostSchedule(postId)) != null) {
+      await this.unschedulePost(postId);
+    }
+  }
+
+  async unpublishPost(postId: string): Promise<void> {
+    this.assertWritable();
+    await this.acceptPostInvite(postId);
+
+    await this.setPostStatus(postId, 'draft');
+  }
+
+  /**
+   * Marks a post to be published at the given time. The post is only
+   * published once a PostScheduler picks it up.
+   */
+  async schedulePost(postId: string, publishAtMs: number): Promise<void> {
+    this.assertWritable();
+    await this.acceptPostInvite(postId);
+
+    await this.matrixClient.sendStateEvent(postId, POST_SCHEDULE_EVENT, '', {
+      publish_at_ms: publishAtMs,
+    });
+  }
+
+  async unschedulePost(postId: string): Promise<void> {
+    this.assertWritable();
+    await this.acceptPostInvite(postId);
+
+    // State events can't be removed, so an empty one means "not scheduled".
+    await this.matrixClient.sendStateEvent(postId, POST_SCHEDULE_EVENT, '', {});
+  }
+
+  async getPostSchedule(postId: string): Promise<number | undefined> {
+    try {
+      const event = (await this.matrixClient.getStateEvent(
+        postId,
+        POST_SCHEDULE_EVENT
+      )) as PostScheduleEvent;
+      return event.publish_at_ms;
+    } catch (e) {
+      if (e instanceof MatrixError && e.status === 404) {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
   async deletePost(
     postId: string,
     reason = 'Deleting blog post'
   ): Promise<void> {
-    const stateEvents = await this.matrixClient.getStateEvents(postId);
+    this.assertWritable();
+    await this.acceptPostInvite(postId);
 
-    const parentEvent = stateEvents.find((e) => e.type === PARENT_EVENT) as
-      | PersistedStateEvent<SpaceParentEvent>
-      | undefined;
-    if (!parentEvent) {
-      throw new BlogServiceError('No parent linkage');
-    }
-
-    const currentUserId = await this.matrixClient.getCurrentUser();
+    const stateEvents = await this.matrixClient.getStateEvents(postId);
+    const parentEvent = findParentEvent(stateEvents);
 
     // In parallel:
     const eventPromises: Array<Promise<unknown>> = [];
@@ -241,51 +1123,711 @@ export class BlogService {
       })
     );
 
-    // 3. Remove alias
-    const aliasEvent = stateEvents.find(
-      (e) => e.type === 'm.room.canonical_alias'
-    ) as PersistedStateEvent<CanonicalAliasEvent> | undefined;
-    if (aliasEvent?.content.alias != null) {
-      eventPromises.push(
-        this.matrixClient.removeRoomAlias(aliasEvent.content.alias)
-      );
-    }
+    await Promise.all(eventPromises);
+
+    await this.abandonRoom(postId, stateEvents, reason);
+  }
+
+  async editPost(postId: string, post: Partial<NewPost>): Promise<void> {
+    this.assertWritable();
+    await this.acceptPostInvite(postId);
+
+    // Check the content first, so that nothing is changed if it's invalid.
+    const hasContent =
+      post.markdown != null || post.text != null || post.html != null;
+    const messageContent = hasContent ? this.toMessageContent(post) : undefined;
+
+    const promises: Array<Promise<unknown>> = [];
+
+    if (post.title != null) {
+      promises.push(this.setPostTitle(postId, post.title));
+    }
+    if (post.summary != null) {
+      promises.push(this.setPostSummary(postId, post.summary));
+    }
+    if (post.slug != null) {
+      promises.push(this.setPostSlug(postId, post.slug));
+    }
+    if (post.status != null) {
+      promises.push(this.setPostStatus(postId, post.status));
+    }
+    if (post.tags != null) {
+      promises.push(this.setPostTags(postId, post.tags));
+    }
+    if (post.cover_image != null) {
+      promises.push(this.setPostCoverImage(postId, post.cover_image));
+    }
+    if (messageContent) {
+      promises.push(this.setPostContent(postId, messageContent));
+    }
+
+    await Promise.all(promises);
+  }
+
+  /**
+   * Returns all versions of the post content, starting with the original one.
+   */
+  async getPostRevisions(postId: string): Promise<ReadonlyArray<PostRevision>> {
+    const postContent = (await this.matrixClient.getStateEvent(
+      postId,
+      POST_CONTENT_EVENT
+    )) as PostContentEvent;
+
+    const original = await this.matrixClient.getEvent(
+      postId,
+      postContent.event_id
+    );
+
+    // Page through all the edits.
+    const edits: Array<PersistedStateEvent<unknown>> = [];
+    let from: string | undefined;
+    do {
+      const response = await this.matrixClient.getRelations(
+        postId,
+        postContent.event_id,
+        'm.replace',
+        { from }
+      );
+      edits.push(...response.chunk);
+      from = response.next_batch;
+    } while (from);
+
+    // Anyone in the room can send an edit, but only the ones by the sender
+    // of the message are valid.
+    return [original, ...edits.filter((e) => e.sender === original.sender)]
+      .map(toRevision)
+      .filter((revision): revision is PostRevision => revision != null)
+      .map((revision) => ({
+        ...revision,
+        html: this.toDisplayedHtml(revision.html),
+      }))
+      .sort((a, b) => a.created_ms - b.created_ms);
+  }
+
+  async restorePostRevision(
+    postId: string,
+    revisionEventId: string
+  ): Promise<void> {
+    this.assertWritable();
+    await this.acceptPostInvite(postId);
+
+    const postContent = (await this.matrixClient.getStateEvent(
+      postId,
+      POST_CONTENT_EVENT
+    )) as PostContentEvent;
+
+    const [event, original] = await Promise.all([
+      this.matrixClient.getEvent(postId, revisionEventId),
+      this.matrixClient.getEvent(postId, postContent.event_id),
+    ]);
+
+    // Make sure that the revision actually belongs to this post, and isn't
+    // an edit by someone else.
+    const relatesTo = (event.content as EditEvent)['m.relates_to'];
+    const isOriginal = event.event_id === postContent.event_id;
+    const isEdit =
+      relatesTo?.rel_type === 'm.replace' &&
+      relatesTo.event_id === postContent.event_id &&
+      event.sender === original.sender;
+    if (!isOriginal && !isEdit) {
+      throw new BlogServiceError('This event is not a revision of the post');
+    }
+
+    const revision = toRevision(event);
+    if (!revision) {
+      throw new BlogServiceError('No formatted_body in the revision event');
+    }
+
+    await this.setPostContent(
+      postId,
+      this.toMessageContent({
+        text: revision.text,
+        html: revision.html,
+        markdown: revision.markdown,
+      })
+    );
+  }
+
+  /**
+   * Returns the comments in a post room, oldest first. The post content itself
+   * and any edits are not comments, so they're skipped.
+   */
+  async getComments(
+    postId: string,
+    { from, limit = 20 }: PageRequest = {}
+  ): Promise<CommentPage> {
+    const postContent = (await this.matrixClient.getStateEvent(
+      postId,
+      POST_CONTENT_EVENT
+    )) as PostContentEvent;
+
+    const response = await this.matrixClient.getMessages(postId, {
+      from,
+      limit,
+      dir: 'f',
+      filter: { types: ['m.room.message'] },
+    });
+
+    const comments: Comment[] = [];
+    for (const event of response.chunk) {
+      const comment = parseComment(event, postContent);
+      if (!comment) continue;
+
+      comments.push({
+        ...comment,
+        html: comment.html && this.toDisplayedHtml(comment.html),
+      });
+    }
+
+    return {
+      comments,
+      // An empty chunk means that we've reached the end of the timeline.
+      next: response.chunk.length ? response.end : undefined,
+    };
+  }
+
+  async deleteComment(
+    postId: string,
+    commentId: string,
+    reason = 'Deleting comment'
+  ): Promise<void> {
+    this.assertWritable();
+    await this.acceptPostInvite(postId);
+
+    const postContent = (await this.matrixClient.getStateEvent(
+      postId,
+      POST_CONTENT_EVENT
+    )) as PostContentEvent;
+    if (isContentMessage(postContent, commentId)) {
+      throw new BlogServiceError('Cannot delete the post content as a comment');
+    }
+
+    await this.matrixClient.redactEvent(postId, commentId, reason);
+  }
+
+  async banCommenter(
+    postId: string,
+    userId: string,
+    reason = 'Banned from commenting'
+  ): Promise<void> {
+    this.assertWritable();
+    await this.acceptPostInvite(postId);
+
+    await this.matrixClient.banUser(postId, userId, reason);
+  }
+
+  private async listPosts(id: string): Promise<{
+    blogRoom: SpaceHierarchyRoom;
+    posts: ReadonlyArray<ListedPost>;
+  }> {
+    // Posts are direct children of the blog, so there's no need to go deeper.
+    const rooms: SpaceHierarchyRoom[] = [];
+    let from: string | undefined;
+    do {
+      const response = await this.matrixClient.getSpaceHierarchy(id, {
+        from,
+        max_depth: 1,
+      });
+      rooms.push(...response.rooms);
+      from = response.next_batch;
+    } while (from);
+
+    const blogRoom = rooms.find((room) => room.room_id === id);
+    if (!blogRoom) {
+      throw new BlogServiceError('Could not find blog room');
+    }
+
+    const childEvents = blogRoom.children_state.filter(
+      (e) => e.type === CHILD_EVENT
+    ) as ReadonlyArray<
+      StateEvent<BlogChildEvent> & { origin_server_ts?: number }
+    >;
+    const postIds = await this.getPostIds(await this.getStateEvents(id));
+
+    const posts = rooms
+      .filter((room) => postIds.includes(room.room_id))
+      .map((room) => {
+        const childEvent = childEvents.find(
+          (e) => e.state_key === room.room_id
+        );
+        const child: Partial<BlogChildEvent> = childEvent?.content ?? {};
+
+        return {
+          metadata: {
+            id: room.room_id,
+            title: room.name,
+            summary: room.topic,
+            slug:
+              room.canonical_alias &&
+              this.getSlugFromRoomAlias(room.canonical_alias),
+            status: getListedStatus(child, room),
+            tags: child[CHILD_TAGS_KEY] ?? [],
+            pinned: isPinned(child.order),
+            cover_image:
+              room.avatar_url &&
+              this.matrixClient.getDownloadUrl(room.avatar_url),
+          },
+          order: child.order,
+          // Older posts don't have the timestamps, but the child event is
+          // usually created along with the post.
+          createdMs:
+            child[CHILD_CREATED_KEY] ?? childEvent?.origin_server_ts ?? 0,
+          publishedMs: child[CHILD_PUBLISHED_KEY],
+          editedMs: child[CHILD_EDITED_KEY],
+        };
+      });
+
+    return { blogRoom, posts };
+  }
+
+  /**
+   * Returns the posts linked from the blog. Authors may send child events with
+   * any state key, so a link sent by an author only counts for a post room that
+   * they created. Rooms that can't be read are kept, as nothing in them is
+   * shown anyway.
+   */
+  private async getPostIds(
+    stateEvents: ReadonlyArray<PersistedStateEvent<unknown>>
+  ): Promise<ReadonlyArray<string>> {
+    const { users = {}, users_default = 0 } = findPowerLevels(stateEvents);
+    const childEvents = getChildEvents(stateEvents);
+
+    const trusted = await mapWithConcurrency(
+      childEvents,
+      this.concurrency,
+      async ({ sender, state_key: postId }) => {
+        if ((users[sender] ?? users_default) >= ROLE_POWER_LEVELS.editor) {
+          return true;
+        }
+
+        let postStateEvents: ReadonlyArray<PersistedStateEvent<unknown>>;
+        try {
+          postStateEvents = await this.matrixClient.getStateEvents(postId);
+        } catch (e) {
+          if (!isBrokenPostError(e)) throw e;
+          return true;
+        }
+        const createEvent = postStateEvents.find(
+          (e) => e.type === 'm.room.create'
+        );
+        return createEvent?.sender === sender;
+      }
+    );
+    return childEvents.filter((_, i) => trusted[i]).map((e) => e.state_key);
+  }
+
+  private async findProblems(
+    blogId: string
+  ): Promise<ReadonlyArray<FoundProblem>> {
+    const stateEvents = await this.getStateEvents(blogId);
+
+    const problems = await mapWithConcurrency(
+      await this.getPostIds(stateEvents),
+      this.concurrency,
+      (postId) => this.findPostProblems(blogId, postId)
+    );
+    return problems.flat();
+  }
+
+  private async findPostProblems(
+    blogId: string,
+    postId: string
+  ): Promise<ReadonlyArray<FoundProblem>> {
+    const problem = (
+      type: BlogProblem['type'],
+      message: string,
+      fix?: () => Promise<unknown>
+    ): FoundProblem => ({
+      problem: { type, postId, message, fixable: !!fix },
+      fix,
+    });
+
+    let stateEvents: ReadonlyArray<PersistedStateEvent<unknown>>;
+    try {
+      stateEvents = await this.matrixClient.getStateEvents(postId);
+    } catch (e) {
+      if (!isBrokenPostError(e)) throw e;
+      return [
+        problem(
+          'inaccessible_post',
+          `Could not read the post: ${(e as Error).message}`
+        ),
+      ];
+    }
+
+    const problems: FoundProblem[] = [];
+
+    // The post should link back to the blog.
+    const hasParent = stateEvents.some(
+      (e) =>
+        e.type === PARENT_EVENT &&
+        e.state_key === blogId &&
+        (e.content as Partial<SpaceParentEvent>).via
+    );
+    if (!hasParent) {
+      problems.push(
+        problem('missing_parent', 'The post does not link to the blog', () =>
+          this.matrixClient.sendStateEvent(postId, PARENT_EVENT, blogId, {
+            via: [this.matrixClient.getServerName()],
+            canonical: true,
+          })
+        )
+      );
+    }
+
+    // The content marker should point at a message that's still there.
+    const postContent = stateEvents.find(
+      (e) => e.type === POST_CONTENT_EVENT
+    ) as PersistedStateEvent<Partial<PostContentEvent>> | undefined;
+    const contentEventId = postContent?.content.event_id;
+    if (!contentEventId) {
+      const messageEventId = await this.findFirstMessage(postId);
+      problems.push(
+        problem(
+          'missing_content',
+          'The post has no content event',
+          messageEventId
+            ? () => this.setContentEventId(postId, messageEventId)
+            : undefined
+        )
+      );
+    } else {
+      const message = await this.matrixClient
+        .getEvent(postId, contentEventId)
+        .catch((e) => {
+          if (!isBrokenPostError(e)) throw e;
+          return undefined;
+        });
+      if (!(message?.content as Partial<TextMessageEvent> | undefined)?.body) {
+        // Without the message, there's no telling whose edits are valid.
+        const latestEdit =
+          message &&
+          (await this.findLatestEdit(
+            postId,
+            contentEventId,
+            message.sender
+          ).catch((e) => {
+            if (!isBrokenPostError(e)) throw e;
+            return undefined;
+          }));
+        problems.push(
+          problem(
+            'redacted_content',
+            `The content event ${contentEventId} was redacted`,
+            latestEdit
+              ? async () => {
+                  // Repost the latest version of the post as a new message.
+                  const eventId = await this.matrixClient.sendMessageEvent(
+                    postId,
+                    'm.room.message',
+                    { ...latestEdit }
+                  );
+                  await this.setContentEventId(postId, eventId);
+                }
+              : undefined
+          )
+        );
+      }
+    }
+
+    // Aliases of posts should have the room prefix, so that their slugs can
+    // be found.
+    const aliasEvent = stateEvents.find(
+      (e) => e.type === 'm.room.canonical_alias'
+    ) as PersistedStateEvent<CanonicalAliasEvent> | undefined;
+    const alias = aliasEvent?.content.alias;
+    if (alias && this.getSlugFromRoomAlias(alias) == null) {
+      const slug = guessSlug(alias);
+      problems.push(
+        problem(
+          'invalid_alias',
+          `The alias ${alias} does not start with ${this.roomPrefix}`,
+          slug ? () => this.setPostSlug(postId, slug) : undefined
+        )
+      );
+    }
+
+    return problems;
+  }
+
+  /**
+   * Finds the first message sent to a post room by the current user, which
+   * is where the content of the post is.
+   */
+  private async findFirstMessage(postId: string): Promise<string | undefined> {
+    const currentUserId = await this.matrixClient.getCurrentUser();
+    const { chunk } = await this.matrixClient.getMessages(postId, {
+      dir: 'f',
+      limit: 20,
+      filter: { types: ['m.room.message'], senders: [currentUserId] },
+    });
+
+    return chunk.find((event) => {
+      const content = event.content as Partial<EditEvent>;
+      return content.formatted_body && !content['m.relates_to'];
+    })?.event_id;
+  }
+
+  /**
+   * Returns the latest content of an edited message.
+   */
+  private async findLatestEdit(
+    postId: string,
+    eventId: string,
+    sender: string
+  ): Promise<TextMessageEvent | undefined> {
+    const { chunk } = await this.matrixClient.getRelations(
+      postId,
+      eventId,
+      'm.replace'
+    );
+
+    // Only the sender of a message can edit it.
+    const edits = chunk
+      .filter(
+        (event) =>
+          event.sender === sender &&
+          (event.content as EditEvent)['m.new_content']
+      )
+      .sort((a, b) => b.origin_server_ts - a.origin_server_ts);
+    return edits.length
+      ? (edits[0].content as EditEvent)['m.new_content']
+      : undefined;
+  }
+
+  private async setContentEventId(
+    postId: string,
+    eventId: string
+  ): Promise<void> {
+    await this.matrixClient.sendStateEvent(postId, POST_CONTENT_EVENT, '', {
+      event_id: eventId,
+    });
+  }
+
+  private async searchOnServer(
+    posts: ReadonlyArray<PostMetadata>,
+    query: string,
+    limit: number
+  ): Promise<ReadonlyArray<PostSearchResult>> {
+    if (!posts.length) return [];
+
+    // Post IDs mapped to the best rank of their messages.
+    const ranks = new Map<string, number>();
+    let nextBatch: string | undefined;
+    do {
+      const response = await this.matrixClient.searchRoomEvents({
+        search_term: query,
+        keys: ['content.body'],
+        filter: {
+          rooms: posts.map((post) => post.id),
+          types: ['m.room.message'],
+        },
+        order_by: 'rank',
+        next_batch: nextBatch,
+      });
+
+      for (const { rank, result } of response.results) {
+        const postId = result.room_id;
+        if (!postId || ranks.has(postId)) continue;
+
+        // Comments are messages too, so skip everything but the content and
+        // its edits.
+        const contentEventId = await this.matrixClient
+          .getStateEvent(postId, POST_CONTENT_EVENT)
+          .then((content) => (content as PostContentEvent).event_id)
+          .catch((e) => {
+            // Broken posts can't be found.
+            if (!isBrokenPostError(e)) throw e;
+            return undefined;
+          });
+        const relatesTo = (result.content as EditEvent)['m.relates_to'];
+        if (
+          result.event_id === contentEventId ||
+          (relatesTo?.rel_type === 'm.replace' &&
+            relatesTo.event_id === contentEventId)
+        ) {
+          ranks.set(postId, rank);
+        }
+      }
+      nextBatch = response.next_batch;
+    } while (nextBatch && ranks.size < limit);
+
+    // Snippets come from the current version of the post, as the matches can
+    // be in older ones.
+    const results = posts
+      .filter((post) => ranks.has(post.id))
+      .sort((a, b) => (ranks.get(b.id) as number) - (ranks.get(a.id) as number))
+      .slice(0, limit);
+    const contents = await mapWithConcurrency(
+      results,
+      this.concurrency,
+      (post) => this.getPostContent(post.id)
+    );
+    const terms = tokenize(query);
+    return results.map((post, i) => ({
+      ...post,
+      score: ranks.get(post.id) as number,
+      snippets: createSnippets(contents[i].text, terms),
+    }));
+  }
+
+  /**
+   * Brings the search index of a blog up to date. Only posts that changed
+   * since the last time are indexed again.
+   */
+  private async updateSearchIndex(blogId: string): Promise<SearchIndex> {
+    const index = this.searchIndexes.get(blogId) ?? new SearchIndex();
+    this.searchIndexes.set(blogId, index);
+
+    const { posts } = await this.listPosts(blogId);
+    const postIds = posts.map(({ metadata }) => metadata.id);
+    for (const postId of index.getPostIds()) {
+      if (!postIds.includes(postId)) {
+        index.remove(postId);
+      }
+    }
+
+    // The listing tells which posts changed, so only those are fetched.
+    const changed = posts.filter(
+      (post) => index.getVersion(post.metadata.id) !== getSearchVersion(post)
+    );
+    const contents = await mapWithConcurrency(
+      changed,
+      this.concurrency,
+      async ({ metadata }) => {
+        try {
+          return await this.getPostContent(metadata.id);
+        } catch (e) {
+          if (!isBrokenPostError(e)) throw e;
+          this.onPostError?.(metadata.id, e);
+          return undefined;
+        }
+      }
+    );
+    changed.forEach((post, i) => {
+      const content = contents[i];
+      if (content) {
+        index.update(
+          { ...post.metadata, ...content } as Post,
+          getSearchVersion(post)
+        );
+      } else {
+        index.remove(post.metadata.id);
+      }
+    });
+
+    return index;
+  }
 
-    // 4. Remove all other members
-    const memberships = stateEvents.filter(
-      (e) => e.type === 'm.room.member' && e.state_key !== currentUserId
-    ) as ReadonlyArray<PersistedStateEvent<MembershipEvent>>;
-    for (const membership of memberships) {
-      eventPromises.push(
-        this.matrixClient.kickUser(postId, membership.state_key, reason)
+  /**
+   * Sets the power level of a user in the blog and in the posts. Passing no
+   * role removes the user's power.
+   */
+  /**
+   * Gives a user the power levels of a role in the blog and its posts. With a
+   * kick reason, the user is also kicked from the posts they didn't create.
+   */
+  private async applyRole(
+    blogId: string,
+    userId: string,
+    role: BlogRole | undefined,
+    kickReason?: string
+  ): Promise<void> {
+    const stateEvents = await this.getStateEvents(blogId);
+    const powerLevels = findPowerLevels(stateEvents);
+    const level = role && ROLE_POWER_LEVELS[role];
+
+    if (powerLevels.users?.[userId] !== level) {
+      await this.matrixClient.sendStateEvent(
+        blogId,
+        'm.room.power_levels',
+        '',
+        {
+          ...powerLevels,
+          users: withPowerLevel(powerLevels.users, userId, level),
+          // Older blogs don't let authors add posts.
+          events: {
+            ...powerLevels.events,
+            [CHILD_EVENT]:
+              powerLevels.events?.[CHILD_EVENT] ?? ROLE_POWER_LEVELS.author,
+          },
+        }
       );
     }
 
-    await Promise.all(eventPromises);
+    const isManager = role === 'owner' || role === 'editor';
+    await mapWithConcurrency(
+      await this.getPostIds(stateEvents),
+      this.concurrency,
+      async (postId) => {
+        const postStateEvents = await this.matrixClient.getStateEvents(postId);
 
-    // Finally, leave the room.
-    await this.matrixClient.leaveRoom(postId);
+        // Authors keep the power over their own posts.
+        const createEvent = postStateEvents.find(
+          (e) => e.type === 'm.room.create'
+        );
+        if (createEvent?.sender === userId) return;
+
+        const postPowerLevels = findPowerLevels(postStateEvents);
+        const postLevel = isManager ? level : undefined;
+        if (postPowerLevels.users?.[userId] !== postLevel) {
+          await this.matrixClient.sendStateEvent(
+            postId,
+            'm.room.power_levels',
+            '',
+            {
+              ...postPowerLevels,
+              users: withPowerLevel(postPowerLevels.users, userId, postLevel),
+            }
+          );
+        }
+        if (isManager && !isMember(postStateEvents, userId)) {
+          await this.matrixClient.inviteUser(postId, userId);
+        }
+        if (kickReason !== undefined && isMember(postStateEvents, userId)) {
+          await this.matrixClient.kickUser(postId, userId, kickReason);
+        }
+      }
+    );
   }
 
-  async editPost(postId: string, post: Partial<NewPost>): Promise<void> {
-    const promises: Array<Promise<unknown>> = [];
+  /**
+   * Accepts a pending invite to a post. Owners and editors are only invited to
+   * the posts of others, and can't change them before joining.
+   */
+  private async acceptPostInvite(postId: string): Promise<void> {
+    const currentUserId = await this.matrixClient.getCurrentUser();
 
-    if (post.title != null) {
-      promises.push(this.setPostTitle(postId, post.title));
-    }
-    if (post.summary != null) {
-      promises.push(this.setPostSummary(postId, post.summary));
+    let membership: string | undefined;
+    try {
+      const event = (await this.matrixClient.getStateEvent(
+        postId,
+        'm.room.member',
+        currentUserId
+      )) as MembershipEvent;
+      membership = event.membership;
+    } catch (e) {
+      if (!(e instanceof MatrixError)) throw e;
+      if (e.status === 404) return;
+      // Rooms that aren't readable yet may still have an invite.
+      if (e.status !== 403) throw e;
     }
-    if (post.slug != null) {
-      promises.push(this.setPostSlug(postId, post.slug));
+    if (membership !== undefined && membership !== 'invite') return;
+
+    try {
+      await this.matrixClient.joinRoom(postId);
+    } catch (e) {
+      // Without an invite, the change itself fails with a clearer error.
+      if (!isBrokenPostError(e)) throw e;
     }
-    if (post.text != null && post.html != null) {
-      promises.push(
-        this.setPostContent(postId, { text: post.text, html: post.html })
+  }
+
+  private assertWritable(): void {
+    if (this.matrixClient.isReadOnly()) {
+      throw new BlogServiceError(
+        'Cannot modify the blog with a read-only client'
       );
     }
-
-    await Promise.all(promises);
   }
 
   private async getPostTitle(postId: string): Promise<string> {
@@ -342,38 +1884,216 @@ export class BlogService {
 
   private async setPostSlug(postId: string, slug: string): Promise<void> {
     // Allow to unset a slug by passing an empty string.
-    const newAlias = slug && this.createRoomAlias(slug);
+    const newAlias = slug ? this.createRoomAlias(slug) : undefined;
 
-    // Get the old alias
-    let oldAlias: string | undefined;
+    // Get the old aliases
+    let aliasEvent: CanonicalAliasEvent = {};
     try {
-      const aliasEvent = (await this.matrixClient.getStateEvent(
+      aliasEvent = (await this.matrixClient.getStateEvent(
         postId,
         'm.room.canonical_alias'
       )) as CanonicalAliasEvent;
-      oldAlias = aliasEvent.alias;
     } catch (e) {
       // It's fine if there's no event.
     }
+    const oldAlias = aliasEvent.alias;
+    const oldAltAliases = aliasEvent.alt_aliases ?? [];
 
     // If the old alias is the same as the new one, do nothing.
     if (oldAlias === newAlias) return;
 
-    // Swap aliases
-    if (newAlias) {
-      await this.matrixClient.addRoomAlias(newAlias, postId);
+    // Keep the old alias around, so that old links can be redirected.
+    const altAliases = oldAltAliases.filter((alias) => alias !== newAlias);
+    if (oldAlias && !altAliases.includes(oldAlias)) {
+      altAliases.push(oldAlias);
+    }
+
+    // Going back to an old slug reuses the alias that's still there.
+    const addedAlias =
+      newAlias && !oldAltAliases.includes(newAlias) ? newAlias : undefined;
+    if (addedAlias) {
+      await this.matrixClient.addRoomAlias(addedAlias, postId);
+    }
+
+    try {
       await this.matrixClient.sendStateEvent(
         postId,
         'm.room.canonical_alias',
         '',
-        { alias: newAlias }
+        { alias: newAlias, alt_aliases: altAliases }
       );
+    } catch (e) {
+      // Free the alias again, so that the slug isn't taken by a failed edit.
+      if (addedAlias) {
+        await this.matrixClient
+          .removeRoomAlias(addedAlias)
+          .catch(() => undefined);
+      }
+      throw e;
+    }
+  }
+
+  private async getPostStatus(postId: string): Promise<PostStatus> {
+    const stateEvents = await this.matrixClient.getStateEvents(postId);
+    return findPublishedEvent(stateEvents) ? 'published' : 'draft';
+  }
+
+  private async setPostStatus(
+    postId: string,
+    status: PostStatus
+  ): Promise<void> {
+    const published = status === 'published';
+
+    // Open up or close down the room first, so that the status never claims
+    // that a post is published while it can't be read.
+    await Promise.all([
+      this.matrixClient.sendStateEvent(postId, 'm.room.join_rules', '', {
+        join_rule: published ? 'public' : 'invite',
+      }),
+      this.matrixClient.sendStateEvent(
+        postId,
+        'm.room.history_visibility',
+        '',
+        { history_visibility: published ? 'world_readable' : 'shared' }
+      ),
+    ]);
+
+    const statusEventId = await this.matrixClient.sendStateEvent(
+      postId,
+      POST_STATUS_EVENT,
+      '',
+      { status }
+    );
+
+    // Keep the publishing time in the listing, for sorting.
+    const [{ origin_server_ts: publishedMs }, stateEvents] = await Promise.all([
+      this.matrixClient.getEvent(postId, statusEventId),
+      this.matrixClient.getStateEvents(postId),
+    ]);
+    const createEvent = stateEvents.find((e) => e.type === 'm.room.create');
+    await this.updateChildEvent(postId, (content) => ({
+      ...content,
+      // The listing tells older posts by the missing creation time, so it's
+      // added along with the status.
+      [CHILD_CREATED_KEY]:
+        content[CHILD_CREATED_KEY] ?? createEvent?.origin_server_ts,
+      [CHILD_PUBLISHED_KEY]: published ? publishedMs : undefined,
+    }));
+  }
+
+  private async getPostTags(postId: string): Promise<ReadonlyArray<string>> {
+    try {
+      const event = (await this.matrixClient.getStateEvent(
+        postId,
+        POST_TAGS_EVENT
+      )) as PostTagsEvent;
+      return event.tags;
+    } catch (e) {
+      if (e instanceof MatrixError && e.status === 404) {
+        return [];
+      }
+      throw e;
     }
-    if (oldAlias) {
-      await this.matrixClient.removeRoomAlias(oldAlias);
+  }
+
+  private async setPostTags(
+    postId: string,
+    tags: ReadonlyArray<string>
+  ): Promise<void> {
+    const normalizedTags = normalizeTags(tags);
+
+    await Promise.all([
+      this.matrixClient.sendStateEvent(postId, POST_TAGS_EVENT, '', {
+        tags: normalizedTags,
+      }),
+      this.updateChildEvent(postId, (content) => ({
+        ...content,
+        [CHILD_TAGS_KEY]: normalizedTags,
+      })),
+    ]);
+  }
+
+  private async getPostPinned(postId: string): Promise<boolean> {
+    const { state_key: blogId } = await this.getParentEvent(postId);
+    const { order } = (await this.matrixClient.getStateEvent(
+      blogId,
+      CHILD_EVENT,
+      postId
+    )) as BlogChildEvent;
+    return isPinned(order);
+  }
+
+  /**
+   * Changes the space child event of a post, which links it to the blog.
+   */
+  private updateChildEvent(
+    postId: string,
+    update: (content: BlogChildEvent) => BlogChildEvent
+  ): Promise<void> {
+    // Updates read the event and write it back, so the ones for the same post
+    // run one after another to not overwrite each other.
+    const previous = this.childUpdates.get(postId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() => this.writeChildEvent(postId, update));
+    this.childUpdates.set(postId, next);
+
+    const cleanUp = () => {
+      if (this.childUpdates.get(postId) === next) {
+        this.childUpdates.delete(postId);
+      }
+    };
+    next.then(cleanUp, cleanUp);
+    return next;
+  }
+
+  private async writeChildEvent(
+    postId: string,
+    update: (content: BlogChildEvent) => BlogChildEvent
+  ): Promise<void> {
+    const { state_key: blogId } = await this.getParentEvent(postId);
+    const content = (await this.matrixClient.getStateEvent(
+      blogId,
+      CHILD_EVENT,
+      postId
+    )) as BlogChildEvent;
+
+    const newContent = update(content);
+    if (newContent === content) return;
+
+    await this.matrixClient.sendStateEvent(
+      blogId,
+      CHILD_EVENT,
+      postId,
+      newContent
+    );
+  }
+
+  private async getPostCoverImage(postId: string): Promise<string | undefined> {
+    try {
+      const { url } = (await this.matrixClient.getStateEvent(
+        postId,
+        'm.room.avatar'
+      )) as AvatarEvent;
+      return url && this.matrixClient.getDownloadUrl(url);
+    } catch (e) {
+      if (e instanceof MatrixError && e.status === 404) {
+        return undefined;
+      }
+      throw e;
     }
   }
 
+  private setPostCoverImage(postId: string, mxcUri: string): Promise<string> {
+    // Allow to unset the cover image by passing an empty string.
+    return this.matrixClient.sendStateEvent(
+      postId,
+      'm.room.avatar',
+      '',
+      mxcUri ? { url: mxcUri } : {}
+    );
+  }
+
   private async getPostContent(postId: string): Promise<PostContent> {
     // Get state events
     const stateEvents = await this.matrixClient.getStateEvents(postId);
@@ -386,20 +2106,21 @@ export class BlogService {
       throw new BlogServiceError('Could not find post content event');
     }
 
-    // Find the latest slug event to check if the post is published
-    const aliasEvent = stateEvents.find(
-      (event) => event.type === 'm.room.canonical_alias'
-    ) as PersistedStateEvent<CanonicalAliasEvent> | undefined;
-    const publishedMs = aliasEvent?.content.alias
-      ? aliasEvent.origin_server_ts
-      : undefined;
+    // Find out when the post was published
+    const publishedMs = findPublishedEvent(stateEvents)?.origin_server_ts;
+
+    // Find out if the post is going to be published
+    const scheduleEvent = stateEvents.find(
+      (event) => event.type === POST_SCHEDULE_EVENT
+    ) as PersistedStateEvent<PostScheduleEvent> | undefined;
+    const scheduledMs = scheduleEvent?.content.publish_at_ms;
 
     // Get the message
     const message = await this.matrixClient.getEvent(
       postId,
       postContent.content.event_id
     );
-    const content = message.content as TextMessageEvent;
+    const content = message.content as PostMessageEvent;
 
     if (!content.formatted_body) {
       throw new BlogServiceError('No formatted_body in the blog post event');
@@ -409,20 +2130,59 @@ export class BlogService {
     const relations = message.unsigned?.['m.relations'] as
       | { 'm.replace'?: { origin_server_ts: number } }
       | undefined;
-    const editedMs = relations?.['m.replace']?.origin_server_ts;
+    const replaced = postContent.content.created_ms != null;
+    const editedMs =
+      relations?.['m.replace']?.origin_server_ts ??
+      (replaced ? message.origin_server_ts : undefined);
 
     return {
+      author: this.getAuthor(
+        stateEvents,
+        postContent.content.author ?? message.sender
+      ),
       text: content.body,
-      html: content.formatted_body,
-      created_ms: message.origin_server_ts,
+      html: this.toDisplayedHtml(content.formatted_body),
+      markdown: content[MARKDOWN_KEY],
+      created_ms: postContent.content.created_ms ?? message.origin_server_ts,
       published_ms: publishedMs,
+      scheduled_ms: scheduledMs,
       edited_ms: editedMs,
     };
   }
 
+  private getAuthor(
+    stateEvents: ReadonlyArray<PersistedStateEvent<unknown>>,
+    userId: string
+  ): PostAuthor {
+    const member = stateEvents.find(
+      (e) => e.type === 'm.room.member' && e.state_key === userId
+    )?.content as Partial<MembershipEvent> | undefined;
+
+    return {
+      id: userId,
+      name: member?.displayname ?? undefined,
+      avatar_url:
+        member?.avatar_url &&
+        this.matrixClient.getDownloadUrl(member.avatar_url),
+    };
+  }
+
   private async setPostContent(
     postId: string,
-    content: { text: string; html: string }
+    content: PostMessageEvent
+  ): Promise<string> {
+    const eventId = await this.sendPostContent(postId, content);
+
+    await this.updateChildEvent(postId, (child) => ({
+      ...child,
+      [CHILD_EDITED_KEY]: Date.now(),
+    }));
+    return eventId;
+  }
+
+  private async sendPostContent(
+    postId: string,
+    content: PostMessageEvent
   ): Promise<string> {
     // Find the message event ID
     const postContent = (await this.matrixClient.getStateEvent(
@@ -430,18 +2190,34 @@ export class BlogService {
       POST_CONTENT_EVENT
     )) as PostContentEvent;
 
+    // Servers ignore edits by someone else than the sender, so editors
+    // replace the message instead.
+    const [message, currentUserId] = await Promise.all([
+      this.matrixClient.getEvent(postId, postContent.event_id),
+      this.matrixClient.getCurrentUser(),
+    ]);
+    if (message.sender !== currentUserId) {
+      const eventId = await this.matrixClient.sendMessageEvent(
+        postId,
+        'm.room.message',
+        { ...content }
+      );
+      await this.matrixClient.sendStateEvent(postId, POST_CONTENT_EVENT, '', {
+        event_id: eventId,
+        author: postContent.author ?? message.sender,
+        created_ms: postContent.created_ms ?? message.origin_server_ts,
+        replaces: [...(postContent.replaces ?? []), postContent.event_id],
+      });
+      return eventId;
+    }
+
     // Send the new message
     return await this.matrixClient.sendMessageEvent(postId, 'm.room.message', {
       msgtype: 'm.text',
       format: 'org.matrix.custom.html',
-      body: `(edited) ${content.text}`,
-      formatted_body: `<p>(edited)</p> ${content.html}`,
-      'm.new_content': {
-        msgtype: 'm.text',
-        format: 'org.matrix.custom.html',
-        body: content.text,
-        formatted_body: content.html,
-      },
+      body: `(edited) ${content.body}`,
+      formatted_body: `<p>(edited)</p> ${content.formatted_body ?? ''}`,
+      'm.new_content': content,
       'm.relates_to': {
         rel_type: 'm.replace',
         event_id: postContent.event_id,
@@ -449,6 +2225,141 @@ export class BlogService {
     });
   }
 
+  /**
+   * Creates the content of a post message. Markdown is rendered to sanitized
+   * HTML and plain text, and kept in the event so that it can be edited again.
+   */
+  private toMessageContent(
+    post: Pick<NewPost, 'markdown' | 'text' | 'html'>
+  ): PostMessageEvent {
+    if (post.markdown != null) {
+      const html = this.toStoredHtml(markdownToHtml(post.markdown), true);
+      return {
+        msgtype: 'm.text',
+        format: 'org.matrix.custom.html',
+        body: htmlToText(html),
+        formatted_body: html,
+        [MARKDOWN_KEY]: post.markdown,
+      };
+    }
+
+    if (post.text == null || post.html == null) {
+      throw new BlogServiceError(
+        'Post content needs either markdown or both text and html'
+      );
+    }
+    return {
+      msgtype: 'm.text',
+      format: 'org.matrix.custom.html',
+      body: post.text,
+      formatted_body: this.toStoredHtml(post.html),
+    };
+  }
+
+  /**
+   * Matrix clients expect mxc:// URIs in the HTML, but browsers need HTTP URLs.
+   * Sanitizing comes first, as it only allows mxc:// URIs in images.
+   */
+  private toDisplayedHtml(html: string): string {
+    const sanitizedHtml =
+      this.sanitizeOptions !== false
+        ? sanitizeHtml(html, this.sanitizeOptions)
+        : html;
+    return replaceMediaUrls(sanitizedHtml, (url) =>
+      this.matrixClient.getDownloadUrl(url)
+    );
+  }
+
+  private toStoredHtml(html: string, sanitize = this.sanitizeOnWrite): string {
+    const mxcHtml = replaceMediaUrls(html, (url) =>
+      this.matrixClient.getMxcUri(url)
+    );
+    return sanitize
+      ? sanitizeHtml(mxcHtml, this.sanitizeOptions || {})
+      : mxcHtml;
+  }
+
+  private async getParentEvent(
+    postId: string
+  ): Promise<PersistedStateEvent<SpaceParentEvent>> {
+    return findParentEvent(await this.matrixClient.getStateEvents(postId));
+  }
+
+  /**
+   * Removes what's left of a post that couldn't be created. Returns whether
+   * it succeeded.
+   */
+  private async rollBackPost(
+    blogId: string,
+    postId: string,
+    completedSteps: ReadonlyArray<PostCreationStep>
+  ): Promise<boolean> {
+    // The child link is the last step. It might have been sent even if the
+    // request failed, but when it was refused, clearing it fails too, which
+    // mustn't keep the room from being removed.
+    if (completedSteps.includes('content')) {
+      await this.matrixClient
+        .sendStateEvent(blogId, CHILD_EVENT, postId, {})
+        .catch(() => undefined);
+    }
+
+    try {
+      const stateEvents = await this.matrixClient.getStateEvents(postId);
+      await this.abandonRoom(postId, stateEvents, 'Could not create the post');
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Removes the aliases and all other members of a room, then leaves
+   * it. As nobody is left in it, the room is effectively deleted.
+   */
+  private async abandonRoom(
+    roomId: string,
+    stateEvents: ReadonlyArray<PersistedStateEvent<unknown>>,
+    reason: string
+  ): Promise<void> {
+    const currentUserId = await this.matrixClient.getCurrentUser();
+
+    // In parallel:
+    const eventPromises: Array<Promise<unknown>> = [];
+
+    // 1. Remove aliases, including the old ones
+    const aliasEvent = stateEvents.find(
+      (e) => e.type === 'm.room.canonical_alias'
+    ) as PersistedStateEvent<CanonicalAliasEvent> | undefined;
+    if (aliasEvent?.content.alias != null) {
+      eventPromises.push(
+        this.matrixClient.removeRoomAlias(aliasEvent.content.alias)
+      );
+    }
+    for (const alias of aliasEvent?.content.alt_aliases ?? []) {
+      eventPromises.push(this.matrixClient.removeRoomAlias(alias));
+    }
+
+    // 2. Remove all other members, a few at a time to avoid rate limits.
+    // Kicking also revokes invites, but fails for users who already left.
+    const memberships = stateEvents.filter((e) => {
+      if (e.type !== 'm.room.member' || e.state_key === currentUserId) {
+        return false;
+      }
+      const { membership } = e.content as MembershipEvent;
+      return membership === 'join' || membership === 'invite';
+    });
+    eventPromises.push(
+      mapWithConcurrency(memberships, this.concurrency, (membership) =>
+        this.matrixClient.kickUser(roomId, membership.state_key, reason)
+      )
+    );
+
+    await Promise.all(eventPromises);
+
+    // Finally, leave the room.
+    await this.matrixClient.leaveRoom(roomId);
+  }
+
   private async getStateEvents(
     blogId: string
   ): Promise<ReadonlyArray<PersistedStateEvent<unknown>>> {
@@ -468,6 +2379,246 @@ export class BlogService {
 
     return stateEvents;
   }
+
+  private async isBlog(roomId: string): Promise<boolean> {
+    try {
+      await this.getStateEvents(roomId);
+      return true;
+    } catch (e) {
+      if (e instanceof BlogServiceError) return false;
+      throw e;
+    }
+  }
+}
+
+function toRevision(
+  event: PersistedStateEvent<unknown>
+): PostRevision | undefined {
+  // Edits carry the actual content in m.new_content.
+  const eventContent = event.content as EditEvent;
+  const content = eventContent['m.new_content'] ?? eventContent;
+  if (!content.formatted_body) return undefined;
+
+  return {
+    event_id: event.event_id,
+    text: content.body,
+    html: content.formatted_body,
+    markdown: content[MARKDOWN_KEY],
+    sender: event.sender,
+    created_ms: event.origin_server_ts,
+  };
+}
+
+function findParentEvent(
+  stateEvents: ReadonlyArray<PersistedStateEvent<unknown>>
+): PersistedStateEvent<SpaceParentEvent> {
+  const parentEvent = stateEvents.find((e) => e.type === PARENT_EVENT) as
+    | PersistedStateEvent<SpaceParentEvent>
+    | undefined;
+  if (!parentEvent) {
+    throw new BlogServiceError('No parent linkage');
+  }
+  return parentEvent;
+}
+
+// Posts edited before edits were recorded in the child event are only indexed
+// again when their metadata changes.
+function getSearchVersion(post: ListedPost): string {
+  const { title, summary, tags } = post.metadata;
+  return [post.editedMs ?? post.createdMs, title, summary, tags.join(',')].join(
+    '\n'
+  );
+}
+
+// Published posts are the only ones that can be read by anyone.
+/**
+ * Returns the event that published a post, if it's published. Older posts
+ * don't have a status event, and are published when they have a slug.
+ */
+function findPublishedEvent(
+  stateEvents: ReadonlyArray<PersistedStateEvent<unknown>>
+): PersistedStateEvent<unknown> | undefined {
+  const statusEvent = stateEvents.find(
+    (event) => event.type === POST_STATUS_EVENT
+  ) as PersistedStateEvent<PostStatusEvent> | undefined;
+  if (statusEvent) {
+    return statusEvent.content.status === 'published' ? statusEvent : undefined;
+  }
+
+  const aliasEvent = stateEvents.find(
+    (event) => event.type === 'm.room.canonical_alias'
+  ) as PersistedStateEvent<CanonicalAliasEvent> | undefined;
+  return aliasEvent?.content.alias ? aliasEvent : undefined;
+}
+
+/**
+ * Tells the status of a post from the blog listing, by the same rule as
+ * findPublishedEvent. The child events of older posts don't have the creation
+ * time, which is added along with the first status.
+ */
+function getListedStatus(
+  child: Partial<BlogChildEvent>,
+  room: SpaceHierarchyRoom
+): PostStatus {
+  if (child[CHILD_CREATED_KEY] != null) {
+    return child[CHILD_PUBLISHED_KEY] != null ? 'published' : 'draft';
+  }
+  return room.canonical_alias ? 'published' : 'draft';
+}
+
+function comparePosts(
+  sort: PostSort
+): (a: ListedPost, b: ListedPost) => number {
+  const time = (post: ListedPost) =>
+    sort === 'created' ? post.createdMs : post.publishedMs ?? post.createdMs;
+  const byTime = (a: ListedPost, b: ListedPost) => time(b) - time(a);
+
+  // Posts with an order come first, ordered by it.
+  const byOrder = (a?: string, b?: string) => {
+    if (a == null || b == null)
+      return (a == null ? 1 : 0) - (b == null ? 1 : 0);
+    return a < b ? -1 : a > b ? 1 : 0;
+  };
+
+  if (sort === 'manual') {
+    return (a, b) => byOrder(a.order, b.order) || byTime(a, b);
+  }
+
+  // Only pinned posts are ordered manually, all others are sorted by time.
+  const pinnedOrder = (post: ListedPost) =>
+    isPinned(post.order) ? post.order : undefined;
+  return (a, b) => byOrder(pinnedOrder(a), pinnedOrder(b)) || byTime(a, b);
+}
+
+function isPinned(order?: string): boolean {
+  return order?.startsWith(PINNED_ORDER_PREFIX) ?? false;
+}
+
+/**
+ * Creates an order string for a position. Order strings are compared
+ * character by character, so they're padded to the same length.
+ */
+function createOrder(index: number): string {
+  return index.toString(36).padStart(6, '0');
+}
+
+function getRole(level: number): BlogRole | undefined {
+  if (level >= ROLE_POWER_LEVELS.owner) return 'owner';
+  if (level >= ROLE_POWER_LEVELS.editor) return 'editor';
+  if (level >= ROLE_POWER_LEVELS.author) return 'author';
+  return undefined;
+}
+
+function findPowerLevels(
+  stateEvents: ReadonlyArray<PersistedStateEvent<unknown>>
+): PowerLevelEvent {
+  const event = stateEvents.find((e) => e.type === 'm.room.power_levels') as
+    | PersistedStateEvent<PowerLevelEvent>
+    | undefined;
+  return event?.content ?? {};
+}
+
+/**
+ * Returns the owners and editors along with their power levels for posts.
+ */
+function getManagers(
+  powerLevels: PowerLevelEvent
+): ReadonlyArray<[string, number]> {
+  return Object.entries(powerLevels.users ?? {}).flatMap(([userId, level]) => {
+    const role = getRole(level);
+    return role === 'owner' || role === 'editor'
+      ? [[userId, ROLE_POWER_LEVELS[role]] as [string, number]]
+      : [];
+  });
+}
+
+function withPowerLevel(
+  users: Record<string, number> = {},
+  userId: string,
+  level: number | undefined
+): Record<string, number> {
+  const newUsers = Object.fromEntries(
+    Object.entries(users).filter(([id]) => id !== userId)
+  );
+  if (level != null) {
+    newUsers[userId] = level;
+  }
+  return newUsers;
+}
+
+function isMember(
+  stateEvents: ReadonlyArray<PersistedStateEvent<unknown>>,
+  userId: string
+): boolean {
+  const member = stateEvents.find(
+    (e) => e.type === 'm.room.member' && e.state_key === userId
+  );
+  const membership = (member?.content as Partial<MembershipEvent> | undefined)
+    ?.membership;
+  return membership === 'join' || membership === 'invite';
+}
+
+/**
+ * Returns the child links of a blog. Redacted links have an empty content, so
+ * they're skipped.
+ */
+function getChildEvents(
+  stateEvents: ReadonlyArray<PersistedStateEvent<unknown>>
+): ReadonlyArray<PersistedStateEvent<unknown>> {
+  return stateEvents.filter(
+    (e) => e.type === CHILD_EVENT && (e.content as Partial<SpaceChildEvent>).via
+  );
+}
+
+/**
+ * Tells whether an error is caused by the post itself rather than by e.g. the
+ * network, so that the post can be skipped.
+ */
+function isBrokenPostError(e: unknown): boolean {
+  if (e instanceof BlogServiceError) return true;
+  return (
+    e instanceof MatrixError &&
+    e.status >= 400 &&
+    e.status < 500 &&
+    e.status !== 429
+  );
+}
+
+/**
+ * Guesses the slug from an alias with a different room prefix, assuming that
+ * the prefix ends with a dot like the default one.
+ */
+function guessSlug(alias: string): string | undefined {
+  const localpart = /^#([^:]+)/.exec(alias)?.[1];
+  if (!localpart) return undefined;
+  const dot = localpart.indexOf('.');
+  return dot >= 0 ? localpart.slice(dot + 1) || undefined : localpart;
+}
+
+/**
+ * Replaces the URLs and mxc:// URIs in Markdown. URLs for which `replace`
+ * returns undefined are left as they are.
+ */
+function replaceMarkdownUrls(
+  markdown: string,
+  replace: (url: string) => string | undefined
+): string {
+  return markdown.replace(
+    /(?:mxc|https?):\/\/[^\s)"'<>]+/g,
+    (url) => replace(url) ?? url
+  );
+}
+
+function matchesFilter(post: PostMetadata, filter: PostFilter): boolean {
+  return (
+    (filter.status == null || post.status === filter.status) &&
+    (filter.tag == null || post.tags.includes(filter.tag))
+  );
+}
+
+function normalizeTags(tags: ReadonlyArray<string>): ReadonlyArray<string> {
+  const trimmed = tags.map((tag) => tag.trim()).filter((tag) => tag);
+  return Array.from(new Set(trimmed));
 }
 
 function escapeRegexp(string: string): string {
@@ -0,0 +1,363 @@
+import {
+  AbortSignalLike,
+  MatrixClient,
+  MatrixError,
+} from './matrix/MatrixClient';
+import type {
+  PersistedStateEvent,
+  SpaceChildEvent,
+  SyncFilter,
+  SyncResponse,
+  SyncRoom,
+} from './matrix/types';
+import {
+  CHILD_EVENT,
+  EditEvent,
+  parseComment,
+  POST_CONTENT_EVENT,
+  POST_SCHEDULE_EVENT,
+  POST_STATUS_EVENT,
+  POST_TAGS_EVENT,
+  PostContentEvent,
+} from './events';
+import { replaceMediaUrls } from './media';
+import { sanitizeHtml, SanitizeOptions } from './sanitize';
+import type { Comment } from './types';
+
+export interface BlogWatcherEvents {
+  postAdded: { postId: string };
+  postEdited: { postId: string; eventId: string };
+  postDeleted: { postId: string };
+  // roomId is either the blog or one of its posts.
+  metadataChanged: { roomId: string; type: string };
+  commentAdded: { postId: string; comment: Comment };
+  // Emitted after each batch of changes. Persist the token to resume later.
+  sync: { nextBatch: string };
+}
+
+export interface BlogWatcherOptions {
+  // A sync token from a previous run, to resume where it left off.
+  since?: string;
+  // How long to wait for new events in a single request.
+  timeoutMs?: number;
+  // How the HTML of comments is sanitized, or false to not sanitize it.
+  sanitize?: SanitizeOptions | false;
+}
+
+type Listener<T> = (event: T) => void;
+type Listeners = {
+  [K in keyof BlogWatcherEvents]?: Array<Listener<BlogWatcherEvents[K]>>;
+};
+
+const METADATA_EVENTS: ReadonlyArray<string> = [
+  'm.room.name',
+  'm.room.topic',
+  'm.room.avatar',
+  'm.room.canonical_alias',
+  POST_STATUS_EVENT,
+  POST_SCHEDULE_EVENT,
+  POST_TAGS_EVENT,
+];
+
+/**
+ * Watches a blog for changes using /sync and emits them as events.
+ *
+ * Only rooms the current user has joined can be watched, which is the case for
+ * blogs managed with BlogService.
+ */
+export class BlogWatcher {
+  private readonly listeners: Listeners = {};
+  private readonly timeoutMs: number;
+  private readonly sanitizeOptions: SanitizeOptions | false;
+  private since?: string;
+
+  // Post IDs mapped to the event IDs of their space child events.
+  private readonly posts = new Map<string, string>();
+  private readonly contentEvents = new Map<string, PostContentEvent>();
+
+  constructor(
+    private readonly matrixClient: MatrixClient,
+    private readonly blogId: string,
+    options: BlogWatcherOptions = {}
+  ) {
+    this.since = options.since;
+    this.timeoutMs = options.timeoutMs ?? 30 * 1000;
+    this.sanitizeOptions = options.sanitize ?? {};
+  }
+
+  on<K extends keyof BlogWatcherEvents>(
+    event: K,
+    listener: Listener<BlogWatcherEvents[K]>
+  ): this {
+    const listeners = (this.listeners[event] ?? []) as Array<
+      Listener<BlogWatcherEvents[K]>
+    >;
+    listeners.push(listener);
+    this.listeners[event] = listeners as Listeners[K];
+    return this;
+  }
+
+  off<K extends keyof BlogWatcherEvents>(
+    event: K,
+    listener: Listener<BlogWatcherEvents[K]>
+  ): this {
+    const listeners = (this.listeners[event] ?? []) as Array<
+      Listener<BlogWatcherEvents[K]>
+    >;
+    this.listeners[event] = listeners.filter(
+      (l) => l !== listener
+    ) as Listeners[K];
+    return this;
+  }
+
+  getSyncToken(): string | undefined {
+    return this.since;
+  }
+
+  /**
+   * Keeps watching the blog until the signal is aborted. Rejects if a request
+   * fails, in which case it can be run again to resume.
+   */
+  async run(signal?: AbortSignalLike): Promise<void> {
+    await this.loadPosts();
+
+    while (!signal?.aborted) {
+      // Without a token, this is the first sync and it only returns a snapshot
+      // of the past, so there's nothing to emit.
+      const initial = this.since == null;
+
+      let response: SyncResponse;
+      try {
+        response = await this.matrixClient.sync(
+          {
+            since: this.since,
+            timeout: initial ? 0 : this.timeoutMs,
+            filter: this.createFilter(),
+          },
+          { signal }
+        );
+      } catch (e) {
+        if (signal?.aborted) return;
+        throw e;
+      }
+
+      if (!initial) {
+        await this.handleSync(response);
+      }
+
+      this.since = response.next_batch;
+      this.emit('sync', { nextBatch: response.next_batch });
+    }
+  }
+
+  private async loadPosts(): Promise<void> {
+    const stateEvents = await this.matrixClient.getStateEvents(this.blogId);
+    for (const event of stateEvents) {
+      if (isChildLink(event)) {
+        this.posts.set(event.state_key, event.event_id);
+      }
+    }
+  }
+
+  private createFilter(): SyncFilter {
+    return {
+      room: {
+        rooms: [this.blogId, ...Array.from(this.posts.keys())],
+        include_leave: true,
+      },
+      presence: { types: [] },
+      account_data: { types: [] },
+    };
+  }
+
+  private async handleSync(response: SyncResponse): Promise<void> {
+    const joined = response.rooms?.join ?? {};
+
+    // Handle the blog first, so that events in new posts aren't missed.
+    const blogRoom = joined[this.blogId];
+    if (blogRoom) {
+      this.handleBlogEvents(getEvents(blogRoom));
+    }
+
+    for (const [roomId, room] of Object.entries(joined)) {
+      if (roomId === this.blogId || !this.posts.has(roomId)) continue;
+      await this.handlePostEvents(roomId, getEvents(room));
+    }
+
+    // Deleting a post makes us leave its room.
+    for (const roomId of Object.keys(response.rooms?.leave ?? {})) {
+      this.removePost(roomId);
+    }
+  }
+
+  private handleBlogEvents(
+    events: ReadonlyArray<PersistedStateEvent<unknown>>
+  ): void {
+    for (const event of events) {
+      if (event.type === CHILD_EVENT) {
+        if (isChildLink(event)) {
+          const isNew = !this.posts.has(event.state_key);
+          this.posts.set(event.state_key, event.event_id);
+          if (isNew) {
+            this.emit('postAdded', { postId: event.state_key });
+          } else {
+            // The order, tags or timestamps of the post changed.
+            this.emit('metadataChanged', {
+              roomId: this.blogId,
+              type: event.type,
+            });
+          }
+        } else {
+          this.removePost(event.state_key);
+        }
+      } else if (event.type === 'm.room.redaction') {
+        // Child links are removed by redacting them.
+        const redacts = (event as { redacts?: string }).redacts;
+        for (const [postId, childEventId] of Array.from(this.posts)) {
+          if (childEventId === redacts) {
+            this.removePost(postId);
+          }
+        }
+      } else if (
+        event.state_key != null &&
+        METADATA_EVENTS.includes(event.type)
+      ) {
+        this.emit('metadataChanged', { roomId: this.blogId, type: event.type });
+      }
+    }
+  }
+
+  private async handlePostEvents(
+    postId: string,
+    events: ReadonlyArray<PersistedStateEvent<unknown>>
+  ): Promise<void> {
+    // When an editor replaces the content, the new message comes before the
+    // content marker that points at it, so it has to be recognized early.
+    const newContentEventIds = events
+      .filter((event) => event.type === POST_CONTENT_EVENT)
+      .map((event) => (event.content as PostContentEvent).event_id);
+
+    for (const event of events) {
+      if (event.state_key != null) {
+        if (event.type === POST_CONTENT_EVENT) {
+          this.handleContentChange(postId, event.content as PostContentEvent);
+        } else if (METADATA_EVENTS.includes(event.type)) {
+          this.emit('metadataChanged', { roomId: postId, type: event.type });
+        }
+        continue;
+      }
+
+      if (event.type !== 'm.room.message') continue;
+      if (newContentEventIds.includes(event.event_id)) continue;
+      const postContent = await this.getContentEvent(postId);
+      if (!postContent) continue;
+
+      const relatesTo = (event.content as EditEvent)['m.relates_to'];
+      if (
+        relatesTo?.rel_type === 'm.replace' &&
+        relatesTo.event_id === postContent.event_id
+      ) {
+        // Edits by anyone else than the sender of the message are invalid.
+        const message = await this.matrixClient.getEvent(
+          postId,
+          postContent.event_id
+        );
+        if (event.sender === message.sender) {
+          this.emit('postEdited', { postId, eventId: event.event_id });
+        }
+        continue;
+      }
+
+      const comment = parseComment(event, postContent);
+      if (comment) {
+        this.emit('commentAdded', {
+          postId,
+          comment: {
+            ...comment,
+            html: comment.html && this.toDisplayedHtml(comment.html),
+          },
+        });
+      }
+    }
+  }
+
+  private handleContentChange(
+    postId: string,
+    postContent: PostContentEvent
+  ): void {
+    const previous = this.contentEvents.get(postId);
+    this.contentEvents.set(postId, postContent);
+
+    // The first content marker is sent when the post is created. Later ones
+    // replace the content, unless we haven't seen the post's content yet.
+    const replaced = previous
+      ? previous.event_id !== postContent.event_id
+      : !!postContent.replaces?.length;
+    if (replaced) {
+      this.emit('postEdited', { postId, eventId: postContent.event_id });
+    }
+  }
+
+  private async getContentEvent(
+    postId: string
+  ): Promise<PostContentEvent | undefined> {
+    if (!this.contentEvents.has(postId)) {
+      try {
+        const postContent = (await this.matrixClient.getStateEvent(
+          postId,
+          POST_CONTENT_EVENT
+        )) as PostContentEvent;
+        this.contentEvents.set(postId, postContent);
+      } catch (e) {
+        // The post is still being created.
+        if (e instanceof MatrixError && e.status === 404) {
+          return undefined;
+        }
+        throw e;
+      }
+    }
+    return this.contentEvents.get(postId);
+  }
+
+  private toDisplayedHtml(html: string): string {
+    const sanitizedHtml =
+      this.sanitizeOptions !== false
+        ? sanitizeHtml(html, this.sanitizeOptions)
+        : html;
+    return replaceMediaUrls(sanitizedHtml, (url) =>
+      this.matrixClient.getDownloadUrl(url)
+    );
+  }
+
+  private removePost(postId: string): void {
+    if (!this.posts.delete(postId)) return;
+    this.contentEvents.delete(postId);
+    this.emit('postDeleted', { postId });
+  }
+
+  private emit<K extends keyof BlogWatcherEvents>(
+    event: K,
+    payload: BlogWatcherEvents[K]
+  ): void {
+    const listeners = (this.listeners[event] ?? []) as Array<
+      Listener<BlogWatcherEvents[K]>
+    >;
+    for (const listener of listeners) {
+      listener(payload);
+    }
+  }
+}
+
+function getEvents(
+  room: SyncRoom
+): ReadonlyArray<PersistedStateEvent<unknown>> {
+  return [...(room.state?.events ?? []), ...(room.timeline?.events ?? [])];
+}
+
+function isChildLink(event: PersistedStateEvent<unknown>): boolean {
+  // Redacted child links have an empty content.
+  return (
+    event.type === CHILD_EVENT &&
+    !!(event.content as Partial<SpaceChildEvent>).via
+  );
+}
@@ -0,0 +1,91 @@
+import type { BlogService } from './BlogService';
+
+export interface PostSchedulerOptions {
+  // How often to check for posts to publish when running continuously.
+  intervalMs?: number;
+  // Returns the current time in milliseconds. Defaults to Date.now.
+  now?: () => number;
+  // Called when a check fails while running continuously. Without it, failed
+  // checks are only retried on the next run.
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Publishes the scheduled posts of a blog once their time has come.
+ *
+ * Call `runOnce` from a cron job, or `start` to keep checking in the
+ * background. Running it multiple times is safe, as only drafts are ever
+ * published.
+ */
+export class PostScheduler {
+  private readonly intervalMs: number;
+  private readonly now: () => number;
+  private readonly onError?: (error: unknown) => void;
+  private timeout?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(
+    private readonly blogService: BlogService,
+    private readonly blogId: string,
+    options: PostSchedulerOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? 60 * 1000;
+    this.now = options.now ?? Date.now;
+    this.onError = options.onError;
+  }
+
+  /**
+   * Publishes all drafts whose scheduled time has passed.
+   * Returns the IDs of the published posts.
+   */
+  async runOnce(): Promise<ReadonlyArray<string>> {
+    const drafts = await this.blogService.getPosts(this.blogId, {
+      status: 'draft',
+    });
+    const schedules = await Promise.all(
+      drafts.map((post) => this.blogService.getPostSchedule(post.id))
+    );
+
+    const now = this.now();
+    const duePostIds = drafts
+      .filter((_, i) => {
+        const publishAtMs = schedules[i];
+        return publishAtMs != null && publishAtMs <= now;
+      })
+      .map((post) => post.id);
+
+    await Promise.all(
+      duePostIds.map((postId) => this.blogService.publishPost(postId))
+    );
+
+    return duePostIds;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    void this.tick();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timeout != null) {
+      clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      await this.runOnce();
+    } catch (e) {
+      this.onError?.(e);
+    }
+
+    // Only schedule the next check after this one is done, so that slow
+    // checks never overlap.
+    if (this.running) {
+      this.timeout = setTimeout(() => void this.tick(), this.intervalMs);
+    }
+  }
+}
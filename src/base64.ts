@@ -0,0 +1,35 @@
+// Works the same in browsers and all versions of Node, unlike btoa and Buffer.
+const ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function encodeBase64(data: Uint8Array): string {
+  const chars: string[] = [];
+  for (let i = 0; i < data.length; i += 3) {
+    const bytes = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    chars.push(
+      ALPHABET[(bytes >> 18) & 63],
+      ALPHABET[(bytes >> 12) & 63],
+      i + 1 < data.length ? ALPHABET[(bytes >> 6) & 63] : '=',
+      i + 2 < data.length ? ALPHABET[bytes & 63] : '='
+    );
+  }
+  return chars.join('');
+}
+
+export function decodeBase64(text: string): Uint8Array {
+  const input = text.replace(/[^A-Za-z0-9+/]/g, '');
+  const data = new Uint8Array(Math.floor((input.length * 3) / 4));
+
+  let length = 0;
+  for (let i = 0; i < input.length; i += 4) {
+    const bytes =
+      (ALPHABET.indexOf(input[i]) << 18) |
+      (ALPHABET.indexOf(input[i + 1]) << 12) |
+      ((ALPHABET.indexOf(input[i + 2]) & 63) << 6) |
+      (ALPHABET.indexOf(input[i + 3]) & 63);
+    data[length++] = (bytes >> 16) & 255;
+    if (i + 2 < input.length) data[length++] = (bytes >> 8) & 255;
+    if (i + 3 < input.length) data[length++] = bytes & 255;
+  }
+  return data;
+}
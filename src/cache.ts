@@ -0,0 +1,69 @@
+/**
+ * A store for responses from the homeserver. Implement it to keep them in an
+ * external store, like Redis.
+ */
+export interface Cache {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface LruCacheOptions {
+  maxEntries?: number;
+  // How long entries stay fresh, unless `set` is given a different TTL.
+  ttlMs?: number;
+  // Returns the current time in milliseconds. Defaults to Date.now.
+  now?: () => number;
+}
+
+interface Entry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * An in-memory cache that drops the least recently used entries once it's
+ * full.
+ */
+export class LruCache implements Cache {
+  private readonly entries = new Map<string, Entry>();
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+
+  constructor(options: LruCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+    this.ttlMs = options.ttlMs ?? 30 * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  get(key: string): Promise<unknown> {
+    const entry = this.entries.get(key);
+    if (!entry) return Promise.resolve(undefined);
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.now()) {
+      return Promise.resolve(undefined);
+    }
+
+    // Maps keep the insertion order, so re-inserting marks it as recently used.
+    this.entries.set(key, entry);
+    return Promise.resolve(entry.value);
+  }
+
+  set(key: string, value: unknown, ttlMs = this.ttlMs): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+}
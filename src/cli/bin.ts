@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { runCli } from './node';
+
+void runCli(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
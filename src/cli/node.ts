@@ -0,0 +1,598 @@
+import { promises as fs } from 'fs';
+import {
+  BlogService,
+  BlogServiceError,
+  PostCreationError,
+} from '../BlogService';
+import { MatrixError, MatrixHttpError } from '../matrix/MatrixClient';
+import { createMatrixClient } from '../matrix/node';
+import type {
+  BlogArchive,
+  NewPost,
+  Post,
+  PostQuery,
+  PostSort,
+  PostStatus,
+} from '../types';
+
+export interface CliConfig {
+  serverName: string;
+  homeserverUrl: string;
+  accessToken?: string;
+  blogId?: string;
+  roomPrefix?: string;
+}
+
+// The exit codes of the CLI. Matrix errors are mapped by their errcode, which
+// is also printed along with the error.
+export const EXIT_CODES = {
+  ok: 0,
+  error: 1,
+  usage: 2,
+  notFound: 3,
+  forbidden: 4,
+  unauthorized: 5,
+  rateLimited: 6,
+  server: 7,
+} as const;
+
+const ERRCODE_EXIT_CODES: Readonly<Record<string, number>> = {
+  M_NOT_FOUND: EXIT_CODES.notFound,
+  M_FORBIDDEN: EXIT_CODES.forbidden,
+  M_UNKNOWN_TOKEN: EXIT_CODES.unauthorized,
+  M_MISSING_TOKEN: EXIT_CODES.unauthorized,
+  M_LIMIT_EXCEEDED: EXIT_CODES.rateLimited,
+};
+
+const USAGE = `Usage: matrix-blog <command> [options]
+
+Commands:
+  list                    List the posts of the blog
+  show <post>             Print a post, in the format accepted by new and edit
+  new <file.md>           Create a post from a Markdown file
+  edit <post> <file.md>   Replace a post with the contents of a Markdown file
+  publish <post>          Publish a draft
+  delete <post>           Delete a post
+  export [file]           Export the blog as JSON, to a file or stdout
+  import <file>           Import an exported blog as a new blog
+
+Posts are given by their slug or their room ID.
+
+Options:
+  --config <file>         A JSON config file, also read from MATRIX_BLOG_CONFIG
+  --json                  Print JSON, for use in scripts
+  --status <status>       list: only draft or published posts
+  --tag <tag>             list: only posts with the tag
+  --sort <sort>           list: published, created or manual
+  --limit <n>             list: at most n posts
+  --target <blogId>       import: add the posts to an existing blog
+
+Markdown files can start with front matter, which sets the title, summary,
+slug, status, tags and cover_image of the post:
+
+  ---
+  title: Hello world
+  tags: [matrix, blog]
+  ---
+
+The config is read from the environment, which overrides the config file:
+MATRIX_BLOG_SERVER_NAME, MATRIX_BLOG_HOMESERVER_URL, MATRIX_BLOG_ACCESS_TOKEN,
+MATRIX_BLOG_ID and MATRIX_BLOG_ROOM_PREFIX.
+`;
+
+const VALUE_OPTIONS: ReadonlyArray<string> = [
+  'config',
+  'status',
+  'tag',
+  'sort',
+  'limit',
+  'target',
+];
+const FLAG_OPTIONS: ReadonlyArray<string> = ['json', 'help'];
+
+const FRONT_MATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const FRONT_MATTER_KEYS: ReadonlyArray<string> = [
+  'title',
+  'summary',
+  'slug',
+  'status',
+  'tags',
+  'cover_image',
+];
+
+/**
+ * Thrown for errors that are the user's fault, like a missing argument. The
+ * CLI prints the message without a stack trace.
+ */
+export class CliError extends Error {
+  constructor(message: string, readonly exitCode: number = EXIT_CODES.usage) {
+    super(message);
+  }
+}
+
+interface ParsedArgs {
+  positionals: ReadonlyArray<string>;
+  options: Readonly<Record<string, string>>;
+  flags: ReadonlyArray<string>;
+}
+
+interface CommandContext {
+  args: ParsedArgs;
+  config: CliConfig;
+  blogService: BlogService;
+  json: boolean;
+}
+
+type Command = (context: CommandContext) => Promise<void>;
+
+const COMMANDS: Readonly<Record<string, Command>> = {
+  list,
+  show,
+  new: newPost,
+  edit,
+  publish,
+  delete: deletePost,
+  export: exportBlog,
+  import: importBlog,
+};
+
+/**
+ * Runs the matrix-blog CLI with the given arguments, without the node and
+ * script paths. Resolves with the exit code instead of exiting.
+ */
+export async function runCli(
+  argv: ReadonlyArray<string>,
+  env: Readonly<Record<string, string | undefined>> = process.env
+): Promise<number> {
+  let json = argv.includes('--json');
+  try {
+    const args = parseArgs(argv);
+    json = args.flags.includes('json');
+
+    const [commandName] = args.positionals;
+    if (commandName == null || args.flags.includes('help')) {
+      process.stdout.write(USAGE);
+      return commandName == null && !args.flags.includes('help')
+        ? EXIT_CODES.usage
+        : EXIT_CODES.ok;
+    }
+
+    const command = COMMANDS[commandName];
+    if (!command) {
+      throw new CliError(`Unknown command: ${commandName}`);
+    }
+
+    const config = await loadConfig(args.options.config, env);
+    const matrixClient = createMatrixClient(
+      config.serverName,
+      config.homeserverUrl
+    );
+    if (config.accessToken) {
+      matrixClient.setAccessToken(config.accessToken);
+    }
+    const blogService = new BlogService(matrixClient, config.roomPrefix);
+
+    await command({ args, config, blogService, json });
+    return EXIT_CODES.ok;
+  } catch (e) {
+    return reportError(e, json);
+  }
+}
+
+async function list({ args, config, blogService, json }: CommandContext) {
+  const query: PostQuery = {
+    status: parseStatus(args.options.status),
+    tag: args.options.tag,
+    sort: parseSort(args.options.sort),
+    limit: parseLimit(args.options.limit),
+  };
+  const posts = await blogService.getPosts(requireBlogId(config), query);
+
+  if (json) {
+    printJson(posts);
+    return;
+  }
+  for (const post of posts) {
+    printLine([post.slug ?? post.id, post.status, post.title ?? ''].join('\t'));
+  }
+}
+
+async function show({ args, config, blogService, json }: CommandContext) {
+  const post = await findPost(
+    blogService,
+    requireBlogId(config),
+    requireArg(args, 1, 'post')
+  );
+
+  if (json) {
+    printJson(post);
+    return;
+  }
+  process.stdout.write(formatPostFile(post));
+}
+
+async function newPost({ args, config, blogService, json }: CommandContext) {
+  const blogId = requireBlogId(config);
+  const { attributes, markdown } = await readPostFile(
+    requireArg(args, 1, 'file')
+  );
+  if (!attributes.title) {
+    throw new CliError('The post needs a title in its front matter');
+  }
+
+  const post = await blogService.addPost(blogId, {
+    ...attributes,
+    title: attributes.title,
+    markdown,
+  });
+
+  if (json) {
+    printJson(post);
+  } else {
+    printLine(post.slug ?? post.id);
+  }
+}
+
+async function edit({ args, config, blogService, json }: CommandContext) {
+  const post = await findPost(
+    blogService,
+    requireBlogId(config),
+    requireArg(args, 1, 'post')
+  );
+  const { attributes, markdown } = await readPostFile(
+    requireArg(args, 2, 'file')
+  );
+
+  // Publishing also cancels a scheduled publication, which editPost doesn't
+  // do. The status is only touched when it changes.
+  const { status, ...changes } = attributes;
+  await blogService.editPost(post.id, { ...changes, markdown });
+  if (status != null && status !== post.status) {
+    await (status === 'published'
+      ? blogService.publishPost(post.id)
+      : blogService.unpublishPost(post.id));
+  }
+
+  if (json) {
+    printJson({ id: post.id });
+  }
+}
+
+async function publish({ args, config, blogService, json }: CommandContext) {
+  const post = await findPost(
+    blogService,
+    requireBlogId(config),
+    requireArg(args, 1, 'post')
+  );
+  await blogService.publishPost(post.id);
+
+  if (json) {
+    printJson({ id: post.id });
+  }
+}
+
+async function deletePost({ args, config, blogService, json }: CommandContext) {
+  const post = await findPost(
+    blogService,
+    requireBlogId(config),
+    requireArg(args, 1, 'post')
+  );
+  await blogService.deletePost(post.id);
+
+  if (json) {
+    printJson({ id: post.id });
+  }
+}
+
+async function exportBlog({ args, config, blogService }: CommandContext) {
+  const archive = await blogService.exportBlog(requireBlogId(config));
+  const output = JSON.stringify(archive, null, 2) + '\n';
+
+  // The archive is JSON either way.
+  const [, file] = args.positionals;
+  if (file != null) {
+    await fs.writeFile(file, output);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+async function importBlog({ args, blogService, json }: CommandContext) {
+  const file = requireArg(args, 1, 'file');
+  let archive: BlogArchive;
+  try {
+    archive = JSON.parse(await fs.readFile(file, 'utf8')) as BlogArchive;
+  } catch (e) {
+    if (e instanceof SyntaxError) {
+      throw new CliError(`${file} is not a valid archive: ${e.message}`);
+    }
+    throw e;
+  }
+
+  const result = await blogService.importBlog(archive, {
+    targetBlogId: args.options.target,
+  });
+
+  if (json) {
+    printJson(result);
+  } else {
+    printLine(result.blogId);
+  }
+}
+
+async function loadConfig(
+  configFile: string | undefined,
+  env: Readonly<Record<string, string | undefined>>
+): Promise<CliConfig> {
+  const file = configFile ?? env.MATRIX_BLOG_CONFIG;
+  let fileConfig: Partial<CliConfig> = {};
+  if (file != null) {
+    try {
+      fileConfig = JSON.parse(
+        await fs.readFile(file, 'utf8')
+      ) as Partial<CliConfig>;
+    } catch (e) {
+      throw new CliError(
+        `Cannot read the config file ${file}: ${(e as Error).message}`
+      );
+    }
+  }
+
+  const serverName = env.MATRIX_BLOG_SERVER_NAME ?? fileConfig.serverName;
+  if (!serverName) {
+    throw new CliError(
+      'Set MATRIX_BLOG_SERVER_NAME or serverName in the config file'
+    );
+  }
+
+  return {
+    serverName,
+    homeserverUrl:
+      env.MATRIX_BLOG_HOMESERVER_URL ??
+      fileConfig.homeserverUrl ??
+      `https://${serverName}`,
+    accessToken: env.MATRIX_BLOG_ACCESS_TOKEN ?? fileConfig.accessToken,
+    blogId: env.MATRIX_BLOG_ID ?? fileConfig.blogId,
+    roomPrefix: env.MATRIX_BLOG_ROOM_PREFIX ?? fileConfig.roomPrefix,
+  };
+}
+
+function parseArgs(argv: ReadonlyArray<string>): ParsedArgs {
+  const positionals: string[] = [];
+  const options: Record<string, string> = {};
+  const flags: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = splitOnce(arg.slice(2), '=');
+    if (FLAG_OPTIONS.includes(name) && inlineValue == null) {
+      flags.push(name);
+    } else if (VALUE_OPTIONS.includes(name)) {
+      const value = inlineValue ?? argv[++i];
+      if (value == null) {
+        throw new CliError(`Missing value for --${name}`);
+      }
+      options[name] = value;
+    } else {
+      throw new CliError(`Unknown option: ${arg}`);
+    }
+  }
+
+  return { positionals, options, flags };
+}
+
+function requireArg(args: ParsedArgs, index: number, name: string): string {
+  const value = args.positionals[index];
+  if (value == null) {
+    throw new CliError(`Missing <${name}> argument for ${args.positionals[0]}`);
+  }
+  return value;
+}
+
+function requireBlogId(config: CliConfig): string {
+  if (!config.blogId) {
+    throw new CliError('Set MATRIX_BLOG_ID or blogId in the config file');
+  }
+  return config.blogId;
+}
+
+function parseStatus(status: string | undefined): PostStatus | undefined {
+  if (status == null || status === 'draft' || status === 'published') {
+    return status;
+  }
+  throw new CliError(`Invalid status: ${status}`);
+}
+
+function parseSort(sort: string | undefined): PostSort | undefined {
+  if (
+    sort == null ||
+    sort === 'published' ||
+    sort === 'created' ||
+    sort === 'manual'
+  ) {
+    return sort;
+  }
+  throw new CliError(`Invalid sort: ${sort}`);
+}
+
+function parseLimit(limit: string | undefined): number | undefined {
+  if (limit == null) return undefined;
+  const value = Number(limit);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new CliError(`Invalid limit: ${limit}`);
+  }
+  return value;
+}
+
+/**
+ * Finds a post of the blog by its slug or room ID. Slugs are shared by all
+ * blogs on the server, so the post has to link to the configured blog.
+ */
+async function findPost(
+  blogService: BlogService,
+  blogId: string,
+  slugOrId: string
+): Promise<Post> {
+  try {
+    const post = slugOrId.startsWith('!')
+      ? await blogService.getPost(slugOrId)
+      : (await blogService.getPostBySlug(slugOrId))?.post;
+    if (post && (await blogService.getPostBlogId(post.id)) === blogId) {
+      return post;
+    }
+  } catch (e) {
+    // Rooms that aren't posts, like the blog itself.
+    if (!(e instanceof BlogServiceError)) throw e;
+  }
+  throw new CliError(`Post not found: ${slugOrId}`, EXIT_CODES.notFound);
+}
+
+async function readPostFile(
+  file: string
+): Promise<{ attributes: Partial<NewPost>; markdown: string }> {
+  const source = await fs.readFile(file, 'utf8');
+  const match = FRONT_MATTER_REGEX.exec(source);
+  if (!match) {
+    return { attributes: {}, markdown: source };
+  }
+
+  const attributes: Record<string, unknown> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trimStart().startsWith('#')) continue;
+
+    const [key, rawValue] = splitOnce(line, ':');
+    const name = key.trim();
+    if (rawValue == null || !FRONT_MATTER_KEYS.includes(name)) {
+      throw new CliError(`Invalid front matter in ${file}: ${line}`);
+    }
+
+    const value = rawValue.trim();
+    if (name === 'tags') {
+      attributes.tags = value
+        .replace(/^\[|\]$/g, '')
+        .split(',')
+        .map((tag) => unquote(tag.trim()))
+        .filter((tag) => tag.length > 0);
+    } else if (name === 'status') {
+      attributes.status = parseStatus(unquote(value));
+    } else {
+      attributes[name] = unquote(value);
+    }
+  }
+
+  return {
+    attributes: attributes as Partial<NewPost>,
+    markdown: source.slice(match[0].length),
+  };
+}
+
+/**
+ * Formats a post the way it's read by readPostFile, so that it can be saved,
+ * changed and passed to edit.
+ */
+function formatPostFile(post: Post): string {
+  const attributes: Array<[string, string | undefined]> = [
+    ['title', post.title],
+    ['summary', post.summary],
+    ['slug', post.slug],
+    ['status', post.status],
+    ['tags', post.tags.length ? `[${post.tags.join(', ')}]` : undefined],
+  ];
+  const frontMatter = attributes
+    .filter(([, value]) => value != null)
+    .map(
+      ([key, value]) =>
+        `${key}: ${key === 'tags' ? (value as string) : quote(value as string)}`
+    );
+
+  // Posts that weren't written in Markdown are shown as plain text.
+  const body = post.markdown ?? post.text;
+  return `---\n${frontMatter.join('\n')}\n---\n${body}${
+    body.endsWith('\n') ? '' : '\n'
+  }`;
+}
+
+function quote(value: string): string {
+  return /^["'[]|:\s|#|^\s|\s$/.test(value) ? JSON.stringify(value) : value;
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch (e) {
+      // Not valid JSON, so it's used as it is.
+      return value;
+    }
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+function splitOnce(text: string, separator: string): [string, string?] {
+  const index = text.indexOf(separator);
+  return index < 0
+    ? [text]
+    : [text.slice(0, index), text.slice(index + separator.length)];
+}
+
+function printJson(value: unknown): void {
+  printLine(JSON.stringify(value, null, 2));
+}
+
+function printLine(line: string): void {
+  process.stdout.write(`${line}\n`);
+}
+
+function reportError(error: unknown, json: boolean): number {
+  // Report what went wrong with the post, not that creating it failed.
+  const cause =
+    error instanceof PostCreationError && error.cause instanceof Error
+      ? error.cause
+      : error;
+
+  let exitCode: number = EXIT_CODES.error;
+  let errcode: string | undefined;
+  let message = cause instanceof Error ? cause.message : String(cause);
+
+  if (cause instanceof MatrixError) {
+    errcode = cause.details.errcode;
+    message = cause.details.error;
+    exitCode =
+      ERRCODE_EXIT_CODES[errcode] ??
+      (cause.status >= 500 ? EXIT_CODES.server : EXIT_CODES.error);
+  } else if (cause instanceof MatrixHttpError && cause.status >= 500) {
+    exitCode = EXIT_CODES.server;
+  } else if (cause instanceof CliError) {
+    exitCode = cause.exitCode;
+  }
+
+  if (error instanceof PostCreationError) {
+    message = `Could not create the post: ${message}`;
+  }
+
+  if (json) {
+    process.stderr.write(
+      `${JSON.stringify({ error: message, errcode, exit_code: exitCode })}\n`
+    );
+  } else {
+    process.stderr.write(
+      `matrix-blog: ${message}${errcode ? ` (${errcode})` : ''}\n`
+    );
+    if (exitCode === EXIT_CODES.usage) {
+      process.stderr.write('Run matrix-blog --help for usage.\n');
+    }
+  }
+  return exitCode;
+}
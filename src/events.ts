@@ -0,0 +1,116 @@
+import type {
+  PersistedStateEvent,
+  SpaceChildEvent,
+  TextMessageEvent,
+} from './matrix/types';
+import type { Comment, PostStatus } from './types';
+
+export const TYPE_KEY = 'type';
+export const SPACE_VALUE = 'm.space';
+export const CHILD_EVENT = 'm.space.child';
+export const PARENT_EVENT = 'm.space.parent';
+
+export const POST_CONTENT_EVENT = 'co.hirsz.blog.post_content';
+export const POST_STATUS_EVENT = 'co.hirsz.blog.post_status';
+export const POST_SCHEDULE_EVENT = 'co.hirsz.blog.post_schedule';
+export const POST_TAGS_EVENT = 'co.hirsz.blog.post_tags';
+
+// The Markdown source of a post is kept in its message events, next to the
+// rendered body.
+export const MARKDOWN_KEY = 'co.hirsz.blog.markdown';
+
+// Tags and timestamps are copied into the space child events, so that a blog
+// can be listed and sorted without fetching each post room.
+export const CHILD_TAGS_KEY = 'co.hirsz.blog.tags';
+export const CHILD_CREATED_KEY = 'co.hirsz.blog.created_ms';
+export const CHILD_PUBLISHED_KEY = 'co.hirsz.blog.published_ms';
+// Changes whenever the content is edited, so that search indexes know which
+// posts to fetch again.
+export const CHILD_EDITED_KEY = 'co.hirsz.blog.edited_ms';
+
+// Pinned posts have their order prefixed with the lowest allowed character, so
+// that they come first.
+export const PINNED_ORDER_PREFIX = ' ';
+
+export interface SpaceCreateEvent {
+  [TYPE_KEY]?: string;
+}
+export interface BlogChildEvent extends SpaceChildEvent {
+  [CHILD_TAGS_KEY]?: ReadonlyArray<string>;
+  [CHILD_CREATED_KEY]?: number;
+  [CHILD_PUBLISHED_KEY]?: number;
+  [CHILD_EDITED_KEY]?: number;
+}
+export interface PostContentEvent {
+  event_id: string;
+  // Only edits by the sender of a message are valid, so when someone else
+  // edits a post, its content is replaced by a new message. These keep the
+  // original author and creation time.
+  author?: string;
+  created_ms?: number;
+  // The messages that held the content before it was replaced, oldest first.
+  // They're not comments.
+  replaces?: ReadonlyArray<string>;
+}
+export interface PostStatusEvent {
+  status: PostStatus;
+}
+export interface PostMessageEvent extends TextMessageEvent {
+  [MARKDOWN_KEY]?: string;
+}
+export interface EditEvent extends PostMessageEvent {
+  'm.new_content'?: PostMessageEvent;
+  'm.relates_to'?: { rel_type: string; event_id: string };
+}
+export interface PostTagsEvent {
+  tags: ReadonlyArray<string>;
+}
+export interface PostScheduleEvent {
+  publish_at_ms?: number;
+}
+
+/**
+ * Turns a timeline event of a post room into a comment. Returns undefined for
+ * events that aren't comments: the post content itself, edits and redactions.
+ */
+export function parseComment(
+  event: PersistedStateEvent<unknown>,
+  postContent: PostContentEvent
+): Comment | undefined {
+  if (event.type !== 'm.room.message' || event.state_key != null) {
+    return undefined;
+  }
+  if (isContentMessage(postContent, event.event_id)) return undefined;
+
+  // Skip edits, both of the post and of the comments.
+  const content = event.content as Partial<EditEvent>;
+  if (content['m.relates_to']?.rel_type === 'm.replace') return undefined;
+
+  // Redacted comments have no body.
+  if (content.body == null) return undefined;
+
+  return {
+    id: event.event_id,
+    author: event.sender,
+    text: content.body,
+    html:
+      content.format === 'org.matrix.custom.html'
+        ? content.formatted_body
+        : undefined,
+    created_ms: event.origin_server_ts,
+  };
+}
+
+/**
+ * Checks whether the message holds the content of the post, either now or
+ * before it was replaced.
+ */
+export function isContentMessage(
+  postContent: PostContentEvent,
+  eventId: string
+): boolean {
+  return (
+    eventId === postContent.event_id ||
+    (postContent.replaces ?? []).includes(eventId)
+  );
+}
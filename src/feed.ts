@@ -0,0 +1,188 @@
+import type { Blog, Post } from './types';
+import { escapeXml } from './xml';
+
+export interface FeedOptions {
+  // The URL of the blog's home page, e.g. https://example.com/blog
+  baseUrl: string;
+  // The URL under which the feed itself is served.
+  feedUrl?: string;
+  // Builds the URL of a post. Defaults to the slug under the base URL.
+  postUrl?: (post: Post) => string;
+}
+
+interface FeedItem {
+  post: Post;
+  url: string;
+  publishedMs: number;
+  updatedMs: number;
+}
+
+export function generateRssFeed(
+  blog: Blog,
+  posts: ReadonlyArray<Post>,
+  options: FeedOptions
+): string {
+  const items = getFeedItems(posts, options);
+
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '<channel>',
+    element('title', blog.title ?? ''),
+    element('link', options.baseUrl),
+    element('description', blog.description ?? blog.title ?? ''),
+  ];
+  if (options.feedUrl) {
+    lines.push(
+      `<atom:link href="${escapeXml(
+        options.feedUrl
+      )}" rel="self" type="application/rss+xml"/>`
+    );
+  }
+  if (items.length) {
+    const updatedMs = Math.max(...items.map((item) => item.updatedMs));
+    lines.push(element('lastBuildDate', toRfc822(updatedMs)));
+  }
+
+  for (const { post, url, publishedMs } of items) {
+    lines.push(
+      '<item>',
+      element('title', post.title),
+      element('link', url),
+      `<guid isPermaLink="true">${escapeXml(url)}</guid>`,
+      element('pubDate', toRfc822(publishedMs)),
+      element('description', post.html),
+      ...post.tags.map((tag) => element('category', tag)),
+      '</item>'
+    );
+  }
+
+  lines.push('</channel>', '</rss>');
+  return lines.join('\n');
+}
+
+export function generateAtomFeed(
+  blog: Blog,
+  posts: ReadonlyArray<Post>,
+  options: FeedOptions
+): string {
+  const items = getFeedItems(posts, options);
+  const feedId = options.feedUrl ?? options.baseUrl;
+  const updatedMs = Math.max(0, ...items.map((item) => item.updatedMs));
+
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    element('id', feedId),
+    element('title', blog.title ?? ''),
+    element('updated', toIso(updatedMs)),
+    // Atom requires an author, which entries without their own inherit.
+    authorElement(blog.title || feedId),
+    `<link href="${escapeXml(options.baseUrl)}"/>`,
+  ];
+  if (blog.description) {
+    lines.push(element('subtitle', blog.description));
+  }
+  if (options.feedUrl) {
+    lines.push(`<link href="${escapeXml(options.feedUrl)}" rel="self"/>`);
+  }
+
+  for (const { post, url, publishedMs, updatedMs } of items) {
+    lines.push(
+      '<entry>',
+      element('id', url),
+      element('title', post.title),
+      `<link href="${escapeXml(url)}"/>`,
+      element('published', toIso(publishedMs)),
+      element('updated', toIso(updatedMs)),
+      authorElement(post.author.name ?? post.author.id)
+    );
+    if (post.summary) {
+      lines.push(element('summary', post.summary));
+    }
+    lines.push(
+      `<content type="html">${escapeXml(post.html)}</content>`,
+      ...post.tags.map((tag) => `<category term="${escapeXml(tag)}"/>`),
+      '</entry>'
+    );
+  }
+
+  lines.push('</feed>');
+  return lines.join('\n');
+}
+
+export function generateJsonFeed(
+  blog: Blog,
+  posts: ReadonlyArray<Post>,
+  options: FeedOptions
+): string {
+  const items = getFeedItems(posts, options);
+
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: blog.title ?? '',
+    home_page_url: options.baseUrl,
+    feed_url: options.feedUrl,
+    description: blog.description,
+    items: items.map(({ post, url, publishedMs, updatedMs }) => ({
+      id: url,
+      url,
+      title: post.title,
+      summary: post.summary,
+      content_html: post.html,
+      content_text: post.text,
+      date_published: toIso(publishedMs),
+      date_modified: toIso(updatedMs),
+      tags: post.tags.length ? post.tags : undefined,
+    })),
+  };
+
+  return JSON.stringify(feed, null, 2);
+}
+
+/**
+ * Returns the published posts that can be linked to, newest first.
+ */
+function getFeedItems(
+  posts: ReadonlyArray<Post>,
+  options: FeedOptions
+): ReadonlyArray<FeedItem> {
+  const postUrl =
+    options.postUrl ??
+    ((post: Post) =>
+      `${options.baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(
+        post.slug ?? ''
+      )}`);
+
+  const items: FeedItem[] = [];
+  for (const post of posts) {
+    if (post.status !== 'published' || post.published_ms == null) continue;
+    // Without a slug, there's no URL to point to.
+    if (!options.postUrl && !post.slug) continue;
+
+    items.push({
+      post,
+      url: postUrl(post),
+      publishedMs: post.published_ms,
+      updatedMs: Math.max(post.published_ms, post.edited_ms ?? 0),
+    });
+  }
+
+  return items.sort((a, b) => b.publishedMs - a.publishedMs);
+}
+
+function element(name: string, text: string): string {
+  return `<${name}>${escapeXml(text)}</${name}>`;
+}
+
+function authorElement(name: string): string {
+  return `<author>${element('name', name)}</author>`;
+}
+
+function toRfc822(ms: number): string {
+  return new Date(ms).toUTCString();
+}
+
+function toIso(ms: number): string {
+  return new Date(ms).toISOString();
+}
@@ -1,3 +1,10 @@
 export * from './BlogService';
+export * from './BlogWatcher';
+export * from './PostScheduler';
+export * from './cache';
+export * from './feed';
+export * from './markdown';
+export * from './sanitize';
+export * from './search';
 export * from './types';
 export * from './matrix/MatrixClient';
@@ -0,0 +1,35 @@
+import { marked } from 'marked';
+import { decodeEntities } from './xml';
+
+// Tags after which a line break is added in the plain text version. Blocks
+// are separated by an empty line.
+const BLOCK_TAG_REGEX =
+  /<\/(p|h[1-6]|blockquote|pre|table|ul|ol|details)>|<hr>/gi;
+const LINE_TAG_REGEX = /<\/(div|li|tr|summary)>|<br>/gi;
+
+/**
+ * Renders Markdown to HTML, using GitHub flavored Markdown. The HTML isn't
+ * sanitized, and Markdown can contain any HTML.
+ */
+export function markdownToHtml(markdown: string): string {
+  return marked.parse(markdown, {
+    gfm: true,
+    headerIds: false,
+    mangle: false,
+  });
+}
+
+/**
+ * Converts HTML to plain text, keeping the line breaks between blocks.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    // Line breaks in the HTML source don't matter.
+    .replace(/>\n/g, '>')
+    .replace(BLOCK_TAG_REGEX, (tag) => `${tag}\n\n`)
+    .replace(LINE_TAG_REGEX, (tag) => `${tag}\n`)
+    .replace(/<[^>]*>/g, '');
+  return decodeEntities(text)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -1,15 +1,38 @@
 import type fetchFn from 'node-fetch';
+import { Cache, LruCache } from '../cache';
 import {
   CreateRoomRequest,
+  LoginRequest,
+  LoginResponse,
+  MessagesRequest,
+  MessagesResponse,
   PersistedStateEvent,
+  RefreshResponse,
+  RelationsRequest,
+  RelationsResponse,
+  SearchRequest,
+  SearchResponse,
+  SpaceHierarchyRequest,
+  SpaceHierarchyResponse,
   SpaceSummaryRequest,
   SpaceSummaryResponse,
+  SyncRequest,
+  SyncResponse,
 } from './types';
 
 interface CreateRoomResponse {
   room_id: string;
 }
 
+interface RoomAliasResponse {
+  room_id: string;
+  servers: ReadonlyArray<string>;
+}
+
+interface UploadResponse {
+  content_uri: string;
+}
+
 interface SendEventResponse {
   event_id: string;
 }
@@ -17,6 +40,8 @@ interface SendEventResponse {
 export interface MatrixErrorDetails {
   errcode: string;
   error: string;
+  retry_after_ms?: number;
+  soft_logout?: boolean;
 }
 
 export class MatrixError extends Error {
@@ -25,29 +50,221 @@ export class MatrixError extends Error {
   }
 }
 
+/**
+ * Thrown when the server responds with an error that's not a Matrix error,
+ * e.g. an HTML page from a reverse proxy.
+ */
+export class MatrixHttpError extends Error {
+  constructor(readonly status: number, readonly body: string) {
+    super(`HTTP Error: ${status} ${body.slice(0, 200)}`);
+  }
+}
+
+export class MatrixTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+  }
+}
+
+export interface MatrixClientOptions {
+  // How many times to retry rate limited and failed requests.
+  maxRetries?: number;
+  // The delay before the first retry, doubled on every next one.
+  retryDelayMs?: number;
+  // How long to wait for a response before giving up.
+  timeoutMs?: number;
+  // Called with new tokens after logging in or refreshing the access token,
+  // so that they can be stored for later.
+  onTokensChanged?: (tokens: MatrixTokens) => void;
+}
+
+export interface MatrixTokens {
+  userId: string;
+  accessToken: string;
+  refreshToken?: string;
+}
+
+// Accepted by every method that makes a request.
+export interface MatrixRequestOptions {
+  // Cancels the request, including its retries.
+  signal?: AbortSignalLike;
+  // Replaces the timeout of the client for this request.
+  timeoutMs?: number;
+}
+
+interface RequestOptions extends MatrixRequestOptions {
+  // Whether to send the access token. Defaults to true.
+  authenticated?: boolean;
+}
+
+// An AbortSignal, as understood by fetch.
+export type AbortSignalLike = NonNullable<fetchFn.RequestInit['signal']>;
+
+// A request body that's sent as is, instead of being encoded as JSON.
+// node-fetch accepts any typed array, but its types only allow Buffers.
+type BinaryData = fetchFn.BodyInit | Uint8Array;
+
+class RawBody {
+  constructor(readonly data: BinaryData, readonly contentType: string) {}
+}
+
 export class MatrixClient {
   private accessToken = '';
+  private refreshToken?: string;
+  private refreshing?: Promise<void>;
   private currentUserId?: string;
+  private readOnly = false;
+  private hierarchySupported = true;
+  private cache?: Cache = new LruCache();
+  // Requests for cache entries that are running. An entry that's invalidated
+  // in the meantime isn't stored, as the response might be stale already.
+  private readonly pendingFetches = new Map<
+    string,
+    { count: number; invalidated: boolean }
+  >();
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+  private readonly timeoutMs: number;
+  private readonly onTokensChanged?: (tokens: MatrixTokens) => void;
 
   constructor(
     private readonly serverName: string,
     private readonly homeserverUrl: string,
-    private readonly fetch: typeof fetchFn
-  ) {}
+    private readonly fetch: typeof fetchFn,
+    options: MatrixClientOptions = {}
+  ) {
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.timeoutMs = options.timeoutMs ?? 60 * 1000;
+    this.onTokensChanged = options.onTokensChanged;
+  }
 
-  setAccessToken(token: string): void {
+  /**
+   * Sets the access token. With a refresh token, an expired access token is
+   * renewed automatically.
+   */
+  setAccessToken(token: string, refreshToken?: string): void {
+    // The token might belong to someone else.
+    if (token !== this.accessToken) {
+      this.currentUserId = undefined;
+    }
     this.accessToken = token;
+    this.refreshToken = refreshToken;
+  }
+
+  async login(
+    req: LoginRequest,
+    options: MatrixRequestOptions = {}
+  ): Promise<MatrixTokens> {
+    const response = await this.sendRequest(
+      '/_matrix/client/r0/login',
+      'post',
+      {
+        type: 'm.login.password',
+        identifier: { type: 'm.id.user', user: req.user },
+        password: req.password,
+        device_id: req.device_id,
+        initial_device_display_name: req.initial_device_display_name,
+        refresh_token: true,
+      },
+      { ...options, authenticated: false }
+    );
+
+    const json = (await response.json()) as LoginResponse;
+    this.accessToken = json.access_token;
+    this.refreshToken = json.refresh_token;
+    this.currentUserId = json.user_id;
+    this.readOnly = false;
+
+    const tokens = this.getTokens();
+    this.onTokensChanged?.(tokens);
+    return tokens;
+  }
+
+  /**
+   * Registers a guest account, which can read public blogs without having an
+   * account on the homeserver. Puts the client in read-only mode.
+   */
+  async registerGuest(
+    options: MatrixRequestOptions = {}
+  ): Promise<MatrixTokens> {
+    const response = await this.sendRequest(
+      `/_matrix/client/r0/register${queryString({ kind: 'guest' })}`,
+      'post',
+      {},
+      { ...options, authenticated: false }
+    );
+
+    const json = (await response.json()) as LoginResponse;
+    this.accessToken = json.access_token;
+    this.refreshToken = json.refresh_token;
+    this.currentUserId = json.user_id;
+    this.readOnly = true;
+
+    const tokens = this.getTokens();
+    this.onTokensChanged?.(tokens);
+    return tokens;
+  }
+
+  /**
+   * In read-only mode, BlogService refuses to make any changes. Guest accounts
+   * can't make them anyway.
+   */
+  setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+  }
+
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  async logout(options: MatrixRequestOptions = {}): Promise<void> {
+    await this.sendRequest(
+      '/_matrix/client/r0/logout',
+      'post',
+      undefined,
+      options
+    );
+    this.accessToken = '';
+    this.refreshToken = undefined;
+    this.currentUserId = undefined;
+    this.readOnly = false;
+  }
+
+  /**
+   * Gets a new access token using the refresh token. Concurrent calls share
+   * the same request, as refresh tokens can only be used once.
+   */
+  refreshAccessToken(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefreshAccessToken().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Sets the cache for room state and events. Changes made through this client
+   * invalidate it right away, changes made elsewhere only once entries expire.
+   * Entries are kept per user, so a cache can be shared between clients. Pass
+   * undefined to disable caching.
+   */
+  setCache(cache: Cache | undefined): void {
+    this.cache = cache;
   }
 
   getServerName(): string {
     return this.serverName;
   }
 
-  async getCurrentUser(): Promise<string> {
+  async getCurrentUser(options: MatrixRequestOptions = {}): Promise<string> {
     if (this.currentUserId == null) {
       const response = await this.sendRequest(
         '/_matrix/client/r0/account/whoami',
-        'get'
+        'get',
+        undefined,
+        options
       );
       const json = (await response.json()) as { user_id: string };
       this.currentUserId = json.user_id;
@@ -55,11 +272,45 @@ export class MatrixClient {
     return this.currentUserId;
   }
 
-  async createRoom(req: CreateRoomRequest): Promise<string> {
+  private async doRefreshAccessToken(): Promise<void> {
+    if (!this.refreshToken) {
+      throw new Error('No refresh token');
+    }
+
+    const response = await this.sendRequest(
+      '/_matrix/client/v3/refresh',
+      'post',
+      { refresh_token: this.refreshToken },
+      { authenticated: false }
+    );
+
+    const json = (await response.json()) as RefreshResponse;
+    this.accessToken = json.access_token;
+    // The server may keep using the old refresh token.
+    this.refreshToken = json.refresh_token ?? this.refreshToken;
+
+    if (this.onTokensChanged) {
+      this.onTokensChanged(this.getTokens(await this.getCurrentUser()));
+    }
+  }
+
+  private getTokens(userId = this.currentUserId ?? ''): MatrixTokens {
+    return {
+      userId,
+      accessToken: this.accessToken,
+      refreshToken: this.refreshToken,
+    };
+  }
+
+  async createRoom(
+    req: CreateRoomRequest,
+    options: MatrixRequestOptions = {}
+  ): Promise<string> {
     const response = await this.sendRequest(
       '/_matrix/client/r0/createRoom',
       'post',
-      req
+      req,
+      options
     );
 
     const json = (await response.json()) as CreateRoomResponse;
@@ -68,40 +319,133 @@ export class MatrixClient {
 
   async getEvent(
     roomId: string,
-    eventId: string
+    eventId: string,
+    options: MatrixRequestOptions = {}
   ): Promise<PersistedStateEvent<unknown>> {
+    return this.withCache(eventCacheKey(roomId, eventId), async () => {
+      const response = await this.sendRequest(
+        `/_matrix/client/r0/rooms/${roomId}/event/${eventId}`,
+        'get',
+        undefined,
+        options
+      );
+      return (await response.json()) as PersistedStateEvent<unknown>;
+    });
+  }
+
+  async getRelations(
+    roomId: string,
+    eventId: string,
+    relType: string,
+    req: RelationsRequest = {},
+    options: MatrixRequestOptions = {}
+  ): Promise<RelationsResponse> {
+    const query = queryString({ from: req.from, limit: req.limit });
     const response = await this.sendRequest(
-      `/_matrix/client/r0/rooms/${roomId}/event/${eventId}`,
-      'get'
+      `/_matrix/client/v1/rooms/${roomId}/relations/${eventId}/${relType}${query}`,
+      'get',
+      undefined,
+      options
     );
 
-    return (await response.json()) as PersistedStateEvent<unknown>;
+    return (await response.json()) as RelationsResponse;
+  }
+
+  async getMessages(
+    roomId: string,
+    req: MessagesRequest = {},
+    options: MatrixRequestOptions = {}
+  ): Promise<MessagesResponse> {
+    const query = queryString({
+      from: req.from,
+      to: req.to,
+      dir: req.dir ?? 'b',
+      limit: req.limit,
+      filter: req.filter && JSON.stringify(req.filter),
+    });
+    const response = await this.sendRequest(
+      `/_matrix/client/r0/rooms/${roomId}/messages${query}`,
+      'get',
+      undefined,
+      options
+    );
+
+    return (await response.json()) as MessagesResponse;
+  }
+
+  /**
+   * Searches the messages in the rooms the current user has joined.
+   */
+  async searchRoomEvents(
+    req: SearchRequest,
+    options: MatrixRequestOptions = {}
+  ): Promise<SearchResponse> {
+    const { next_batch, ...criteria } = req;
+    const query = queryString({ next_batch });
+    const response = await this.sendRequest(
+      `/_matrix/client/r0/search${query}`,
+      'post',
+      { search_categories: { room_events: criteria } },
+      options
+    );
+
+    const json = (await response.json()) as {
+      search_categories: { room_events?: SearchResponse };
+    };
+    return (
+      json.search_categories.room_events ?? { results: [], highlights: [] }
+    );
   }
 
   async getStateEvent(
     roomId: string,
     type: string,
-    stateKey = ''
+    stateKey = '',
+    options: MatrixRequestOptions = {}
   ): Promise<unknown> {
+    // Use the full room state if we happen to have it.
+    const cacheKey = await this.getUserCacheKey(stateCacheKey(roomId));
+    const cachedState = (cacheKey && (await this.cache?.get(cacheKey))) as
+      | ReadonlyArray<PersistedStateEvent<unknown>>
+      | undefined;
+    if (cachedState) {
+      const event = cachedState.find(
+        (e) => e.type === type && e.state_key === stateKey
+      );
+      if (!event) {
+        throw new MatrixError(404, {
+          errcode: 'M_NOT_FOUND',
+          error: 'Event not found.',
+        });
+      }
+      return event.content;
+    }
+
     const response = await this.sendRequest(
       `/_matrix/client/r0/rooms/${roomId}/state/${type}/${stateKey}`,
-      'get'
+      'get',
+      undefined,
+      options
     );
 
     return await response.json();
   }
 
   async getStateEvents(
-    roomId: string
+    roomId: string,
+    options: MatrixRequestOptions = {}
   ): Promise<ReadonlyArray<PersistedStateEvent<unknown>>> {
-    const response = await this.sendRequest(
-      `/_matrix/client/r0/rooms/${roomId}/state`,
-      'get'
-    );
-
-    return (await response.json()) as ReadonlyArray<
-      PersistedStateEvent<unknown>
-    >;
+    return this.withCache(stateCacheKey(roomId), async () => {
+      const response = await this.sendRequest(
+        `/_matrix/client/r0/rooms/${roomId}/state`,
+        'get',
+        undefined,
+        options
+      );
+      return (await response.json()) as ReadonlyArray<
+        PersistedStateEvent<unknown>
+      >;
+    });
   }
 
   async sendStateEvent(
@@ -110,30 +454,47 @@ export class MatrixClient {
     stateKey: string,
     // object is a valid type here, we don't care about index signatures.
     // eslint-disable-next-line @typescript-eslint/ban-types
-    event: object
+    event: object,
+    options: MatrixRequestOptions = {}
   ): Promise<string> {
     const response = await this.sendRequest(
       `/_matrix/client/r0/rooms/${roomId}/state/${eventType}/${stateKey}`,
       'put',
-      event
+      event,
+      options
     );
+    await this.invalidateCache(stateCacheKey(roomId));
 
     const json = (await response.json()) as SendEventResponse;
     return json.event_id;
   }
 
+  /**
+   * Sends a message event. Sending again with the same transaction ID doesn't
+   * create another event, so pass one to safely retry a failed call.
+   */
   async sendMessageEvent(
     roomId: string,
     eventType: string,
-    event: Record<string, unknown>
+    event: Record<string, unknown>,
+    txnId = createTransactionId(),
+    options: MatrixRequestOptions = {}
   ): Promise<string> {
-    const txnId = randomString(8);
     const response = await this.sendRequest(
       `/_matrix/client/r0/rooms/${roomId}/send/${eventType}/${txnId}`,
       'put',
-      event
+      event,
+      options
     );
 
+    // Edits and other relations change the unsigned data of their target.
+    const relatesTo = event['m.relates_to'] as
+      | { event_id?: string }
+      | undefined;
+    if (relatesTo?.event_id) {
+      await this.invalidateCache(eventCacheKey(roomId, relatesTo.event_id));
+    }
+
     const json = (await response.json()) as SendEventResponse;
     return json.event_id;
   }
@@ -141,92 +502,616 @@ export class MatrixClient {
   async redactEvent(
     roomId: string,
     eventId: string,
-    reason?: string
+    reason?: string,
+    txnId = createTransactionId(),
+    options: MatrixRequestOptions = {}
   ): Promise<string> {
-    const txnId = randomString(8);
     const response = await this.sendRequest(
       `/_matrix/client/r0/rooms/${roomId}/redact/${eventId}/${txnId}`,
       'put',
-      { reason }
+      { reason },
+      options
     );
+    await Promise.all([
+      this.invalidateCache(eventCacheKey(roomId, eventId)),
+      this.invalidateCache(stateCacheKey(roomId)),
+    ]);
 
     const json = (await response.json()) as SendEventResponse;
     return json.event_id;
   }
 
-  async leaveRoom(roomId: string): Promise<void> {
-    await this.sendRequest(`/_matrix/client/r0/rooms/${roomId}/leave`, 'post');
+  async joinRoom(
+    roomIdOrAlias: string,
+    options: MatrixRequestOptions = {}
+  ): Promise<string> {
+    const response = await this.sendRequest(
+      `/_matrix/client/r0/join/${encodeURIComponent(roomIdOrAlias)}`,
+      'post',
+      {},
+      options
+    );
+
+    const json = (await response.json()) as { room_id: string };
+    await this.invalidateCache(stateCacheKey(json.room_id));
+    return json.room_id;
+  }
+
+  async inviteUser(
+    roomId: string,
+    userId: string,
+    options: MatrixRequestOptions = {}
+  ): Promise<void> {
+    await this.sendRequest(
+      `/_matrix/client/r0/rooms/${roomId}/invite`,
+      'post',
+      { user_id: userId },
+      options
+    );
+    await this.invalidateCache(stateCacheKey(roomId));
+  }
+
+  async leaveRoom(
+    roomId: string,
+    options: MatrixRequestOptions = {}
+  ): Promise<void> {
+    await this.sendRequest(
+      `/_matrix/client/r0/rooms/${roomId}/leave`,
+      'post',
+      undefined,
+      options
+    );
+    await this.invalidateCache(stateCacheKey(roomId));
   }
 
   async kickUser(
     roomId: string,
     userId: string,
-    reason?: string
+    reason?: string,
+    options: MatrixRequestOptions = {}
   ): Promise<void> {
-    await this.sendRequest(`/_matrix/client/r0/rooms/${roomId}/kick`, 'post', {
-      user_id: userId,
-      reason,
-    });
+    await this.sendRequest(
+      `/_matrix/client/r0/rooms/${roomId}/kick`,
+      'post',
+      { user_id: userId, reason },
+      options
+    );
+    await this.invalidateCache(stateCacheKey(roomId));
   }
 
-  async addRoomAlias(alias: string, roomId: string): Promise<void> {
+  async banUser(
+    roomId: string,
+    userId: string,
+    reason?: string,
+    options: MatrixRequestOptions = {}
+  ): Promise<void> {
+    await this.sendRequest(
+      `/_matrix/client/r0/rooms/${roomId}/ban`,
+      'post',
+      { user_id: userId, reason },
+      options
+    );
+    await this.invalidateCache(stateCacheKey(roomId));
+  }
+
+  async addRoomAlias(
+    alias: string,
+    roomId: string,
+    options: MatrixRequestOptions = {}
+  ): Promise<void> {
     await this.sendRequest(
       `/_matrix/client/r0/directory/room/${encodeURIComponent(alias)}`,
       'put',
-      { room_id: roomId }
+      { room_id: roomId },
+      options
+    );
+  }
+
+  async resolveRoomAlias(
+    alias: string,
+    options: MatrixRequestOptions = {}
+  ): Promise<string> {
+    const response = await this.sendRequest(
+      `/_matrix/client/r0/directory/room/${encodeURIComponent(alias)}`,
+      'get',
+      undefined,
+      options
     );
+
+    const json = (await response.json()) as RoomAliasResponse;
+    return json.room_id;
   }
 
-  async removeRoomAlias(alias: string): Promise<void> {
+  async removeRoomAlias(
+    alias: string,
+    options: MatrixRequestOptions = {}
+  ): Promise<void> {
     await this.sendRequest(
       `/_matrix/client/r0/directory/room/${encodeURIComponent(alias)}`,
-      'delete'
+      'delete',
+      undefined,
+      options
+    );
+  }
+
+  async uploadMedia(
+    data: BinaryData,
+    contentType: string,
+    filename?: string,
+    options: MatrixRequestOptions = {}
+  ): Promise<string> {
+    const response = await this.sendRequest(
+      `/_matrix/media/r0/upload${queryString({ filename })}`,
+      'post',
+      new RawBody(data, contentType),
+      options
     );
+
+    const json = (await response.json()) as UploadResponse;
+    return json.content_uri;
+  }
+
+  async downloadMedia(
+    mxcUri: string,
+    options: MatrixRequestOptions = {}
+  ): Promise<{ data: Uint8Array; contentType: string }> {
+    const media = parseMxcUri(mxcUri);
+    if (!media) throw new Error(`Invalid mxc:// URI: ${mxcUri}`);
+
+    const response = await this.sendRequest(
+      `/_matrix/media/r0/download/${media.serverName}/${media.mediaId}`,
+      'get',
+      undefined,
+      { ...options, authenticated: false }
+    );
+
+    return {
+      data: new Uint8Array(await response.arrayBuffer()),
+      contentType:
+        response.headers.get('Content-Type') ?? 'application/octet-stream',
+    };
+  }
+
+  getDownloadUrl(mxcUri: string): string | undefined {
+    const media = parseMxcUri(mxcUri);
+    if (!media) return undefined;
+
+    return `${this.homeserverUrl}/_matrix/media/r0/download/${media.serverName}/${media.mediaId}`;
+  }
+
+  getThumbnailUrl(
+    mxcUri: string,
+    width: number,
+    height: number,
+    method: 'crop' | 'scale' = 'scale'
+  ): string | undefined {
+    const media = parseMxcUri(mxcUri);
+    if (!media) return undefined;
+
+    const query = queryString({ width, height, method });
+    return `${this.homeserverUrl}/_matrix/media/r0/thumbnail/${media.serverName}/${media.mediaId}${query}`;
+  }
+
+  /**
+   * Turns a download or thumbnail URL of this homeserver back into
+   * an mxc:// URI.
+   */
+  getMxcUri(url: string): string | undefined {
+    const prefix = `${this.homeserverUrl}/_matrix/media/r0/`;
+    if (!url.startsWith(prefix)) return undefined;
+
+    const matches = /^(?:download|thumbnail)\/([^/?#]+)\/([^/?#]+)/.exec(
+      url.slice(prefix.length)
+    );
+    if (!matches) return undefined;
+    return `mxc://${matches[1]}/${matches[2]}`;
+  }
+
+  /**
+   * Gets a page of the rooms in a space. Falls back to the unstable space
+   * summary API on older servers, which returns all rooms at once.
+   */
+  async getSpaceHierarchy(
+    roomId: string,
+    req: SpaceHierarchyRequest = {},
+    options: MatrixRequestOptions = {}
+  ): Promise<SpaceHierarchyResponse> {
+    if (this.hierarchySupported) {
+      try {
+        const query = queryString({
+          from: req.from,
+          limit: req.limit,
+          max_depth: req.max_depth,
+          suggested_only: req.suggested_only,
+        });
+        const response = await this.sendRequest(
+          `/_matrix/client/v1/rooms/${roomId}/hierarchy${query}`,
+          'get',
+          undefined,
+          options
+        );
+
+        return (await response.json()) as SpaceHierarchyResponse;
+      } catch (e) {
+        if (!isUnrecognizedEndpoint(e)) throw e;
+        this.hierarchySupported = false;
+      }
+    }
+
+    const summary = await this.getSpaceSummary(
+      roomId,
+      { suggested_only: req.suggested_only },
+      options
+    );
+    return {
+      rooms: summary.rooms.map((room) => ({
+        ...room,
+        children_state: summary.events.filter(
+          (e) => (e.room_id ?? roomId) === room.room_id
+        ),
+      })),
+    };
   }
 
   async getSpaceSummary(
     roomId: string,
-    options: SpaceSummaryRequest = {}
+    req: SpaceSummaryRequest = {},
+    options: MatrixRequestOptions = {}
   ): Promise<SpaceSummaryResponse> {
     const response = await this.sendRequest(
       `/_matrix/client/unstable/org.matrix.msc2946/rooms/${roomId}/spaces`,
       'post',
+      req,
       options
     );
 
     return (await response.json()) as SpaceSummaryResponse;
   }
 
+  /**
+   * Waits for new events, up to `timeout` milliseconds. Pass an AbortSignal to
+   * stop waiting early.
+   */
+  async sync(
+    req: SyncRequest = {},
+    options: MatrixRequestOptions = {}
+  ): Promise<SyncResponse> {
+    const query = queryString({
+      since: req.since,
+      timeout: req.timeout,
+      filter: req.filter && JSON.stringify(req.filter),
+      full_state: req.full_state,
+      set_presence: req.set_presence,
+    });
+    const response = await this.sendRequest(
+      `/_matrix/client/r0/sync${query}`,
+      'get',
+      undefined,
+      // The server may wait for the whole timeout before responding.
+      {
+        ...options,
+        timeoutMs: options.timeoutMs ?? (req.timeout ?? 0) + this.timeoutMs,
+      }
+    );
+
+    const json = (await response.json()) as SyncResponse;
+    await this.invalidateSyncedRooms(json);
+    return json;
+  }
+
+  /**
+   * Drops the cached state and events of rooms that have changed, according
+   * to a sync response.
+   */
+  private async invalidateSyncedRooms(response: SyncResponse): Promise<void> {
+    if (!this.cache) return;
+
+    const rooms = {
+      ...response.rooms?.join,
+      ...response.rooms?.leave,
+    };
+    const keys: string[] = [];
+    for (const [roomId, room] of Object.entries(rooms)) {
+      const timeline = room.timeline?.events ?? [];
+      if (
+        room.state?.events.length ||
+        timeline.some((e) => e.state_key != null)
+      ) {
+        keys.push(stateCacheKey(roomId));
+      }
+
+      for (const event of timeline) {
+        const content = event.content as {
+          'm.relates_to'?: { event_id?: string };
+        };
+        const target =
+          (event as { redacts?: string }).redacts ??
+          content['m.relates_to']?.event_id;
+        if (target) {
+          keys.push(eventCacheKey(roomId, target));
+        }
+        // Redacting state changes the state as well.
+        if (event.type === 'm.room.redaction') {
+          keys.push(stateCacheKey(roomId));
+        }
+      }
+    }
+
+    await Promise.all(keys.map((key) => this.invalidateCache(key)));
+  }
+
+  /**
+   * Returns the cached value for a key, or fetches and caches it.
+   */
+  private async withCache<T>(
+    baseKey: string,
+    fetchValue: () => Promise<T>
+  ): Promise<T> {
+    const cache = this.cache;
+    const key = await this.getUserCacheKey(baseKey);
+    if (!cache || !key) return fetchValue();
+
+    const cached = (await cache.get(key)) as T | undefined;
+    if (cached) return cached;
+
+    const pending = this.pendingFetches.get(key) ?? {
+      count: 0,
+      invalidated: false,
+    };
+    pending.count++;
+    this.pendingFetches.set(key, pending);
+    try {
+      const value = await fetchValue();
+      if (!pending.invalidated) {
+        await cache.set(key, value);
+      }
+      return value;
+    } finally {
+      if (--pending.count === 0) {
+        this.pendingFetches.delete(key);
+      }
+    }
+  }
+
+  private async invalidateCache(baseKey: string): Promise<void> {
+    const key = await this.getUserCacheKey(baseKey);
+    if (!key) return;
+
+    const pending = this.pendingFetches.get(key);
+    if (pending) {
+      pending.invalidated = true;
+    }
+    await this.cache?.delete(key);
+  }
+
+  /**
+   * Users can see different state and events, so each of them gets their own
+   * cache entries. Without a cache or an access token, nothing is cached.
+   */
+  private async getUserCacheKey(key: string): Promise<string | undefined> {
+    if (!this.cache || !this.accessToken) return undefined;
+    return `${await this.getCurrentUser()}:${key}`;
+  }
+
   private async sendRequest(
     endpoint: string,
     method: 'post' | 'put' | 'get' | 'delete',
     // object is a valid type here, we don't care about index signatures.
     // eslint-disable-next-line @typescript-eslint/ban-types
-    body?: object
+    body?: object | RawBody,
+    options: RequestOptions = {}
   ) {
     const headers: Record<string, string> = {
       'User-Agent': 'matrix-blog/0.1.0',
     };
-    if (this.accessToken) {
-      headers['Authorization'] = `Bearer ${this.accessToken}`;
-    }
-    if (body) {
+    const authenticated = options.authenticated ?? true;
+
+    let encodedBody: fetchFn.BodyInit | undefined;
+    if (body instanceof RawBody) {
+      headers['Content-Type'] = body.contentType;
+      encodedBody = body.data as fetchFn.BodyInit;
+    } else if (body) {
       headers['Content-Type'] = 'application/json';
+      encodedBody = JSON.stringify(body);
     }
 
-    const response = await this.fetch(`${this.homeserverUrl}${endpoint}`, {
-      method,
-      body: body && JSON.stringify(body),
-      headers,
-    });
+    // Streams can only be sent once.
+    const canResend =
+      encodedBody == null ||
+      typeof encodedBody === 'string' ||
+      encodedBody instanceof Uint8Array;
+
+    let refreshed = false;
+    for (let attempt = 0; ; attempt++) {
+      if (authenticated && this.accessToken) {
+        headers['Authorization'] = `Bearer ${this.accessToken}`;
+      }
+
+      // Requests other than POST are idempotent, including sending events
+      // which reuses the transaction ID, so they can be retried when the
+      // response gets lost.
+      const idempotent = method !== 'post';
+
+      let response: fetchFn.Response;
+      try {
+        response = await this.fetchWithTimeout(
+          `${this.homeserverUrl}${endpoint}`,
+          { method, body: encodedBody, headers },
+          options
+        );
+      } catch (e) {
+        if (
+          options.signal?.aborted ||
+          !idempotent ||
+          !canResend ||
+          attempt >= this.maxRetries
+        ) {
+          throw e;
+        }
+        await delay(this.retryDelayMs * 2 ** attempt, options.signal);
+        continue;
+      }
+      if (response.ok) return response;
+
+      const error = await parseError(response);
+
+      // A soft logout means that the access token has expired, but it can
+      // be refreshed.
+      if (
+        error instanceof MatrixError &&
+        error.details.errcode === 'M_UNKNOWN_TOKEN' &&
+        error.details.soft_logout &&
+        authenticated &&
+        this.refreshToken &&
+        canResend &&
+        !refreshed
+      ) {
+        refreshed = true;
+        await this.refreshAccessToken();
+        continue;
+      }
 
-    if (!response.ok) {
-      const error = (await response.json()) as MatrixErrorDetails;
-      throw new MatrixError(response.status, error);
+      // Rate limited requests weren't processed, so they're always safe to
+      // retry. Server errors are only retried for idempotent requests.
+      const rateLimited =
+        response.status === 429 ||
+        (error instanceof MatrixError &&
+          error.details.errcode === 'M_LIMIT_EXCEEDED');
+      const retryable = rateLimited || (response.status >= 500 && idempotent);
+      if (!retryable || !canResend || attempt >= this.maxRetries) {
+        throw error;
+      }
+
+      const retryAfterMs =
+        error instanceof MatrixError
+          ? error.details.retry_after_ms
+          : parseRetryAfter(response.headers.get('Retry-After'));
+      await delay(
+        retryAfterMs ?? this.retryDelayMs * 2 ** attempt,
+        options.signal
+      );
+    }
+  }
+
+  private async fetchWithTimeout(
+    url: string,
+    init: fetchFn.RequestInit,
+    options: RequestOptions
+  ): Promise<fetchFn.Response> {
+    const { signal } = options;
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+
+    // Older runtimes can't abort requests, so they can't time out either.
+    if (typeof AbortController === 'undefined') {
+      return this.fetch(url, { ...init, signal });
+    }
+
+    // Aborting both on timeout and when the caller aborts requires a separate
+    // controller.
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    if (signal?.aborted) abort();
+
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      abort();
+    }, timeoutMs);
+
+    try {
+      return await this.fetch(url, {
+        ...init,
+        signal: controller.signal as unknown as AbortSignalLike,
+      });
+    } catch (e) {
+      if (timedOut) throw new MatrixTimeoutError(timeoutMs);
+      throw e;
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+}
+
+async function parseError(
+  response: fetchFn.Response
+): Promise<MatrixError | MatrixHttpError> {
+  const body = await response.text();
+  try {
+    const details = JSON.parse(body) as Partial<MatrixErrorDetails>;
+    if (typeof details.errcode === 'string') {
+      return new MatrixError(response.status, details as MatrixErrorDetails);
     }
+  } catch (e) {
+    // Not JSON, so not a Matrix error.
+  }
+  return new MatrixHttpError(response.status, body);
+}
 
-    return response;
+function parseRetryAfter(header: string | null): number | undefined {
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+function delay(ms: number, signal?: AbortSignalLike): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new Error('The request was aborted'));
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+    if (signal?.aborted) onAbort();
+  });
+}
+
+/**
+ * Tells whether an error means that the server doesn't support an endpoint.
+ */
+export function isUnrecognizedEndpoint(e: unknown): boolean {
+  if (e instanceof MatrixError) {
+    return e.details.errcode === 'M_UNRECOGNIZED';
   }
+  return e instanceof MatrixHttpError && (e.status === 404 || e.status === 405);
+}
+
+function stateCacheKey(roomId: string): string {
+  return `state:${roomId}`;
+}
+
+function eventCacheKey(roomId: string, eventId: string): string {
+  return `event:${roomId}:${eventId}`;
+}
+
+function parseMxcUri(
+  mxcUri: string
+): { serverName: string; mediaId: string } | undefined {
+  const matches = /^mxc:\/\/([^/]+)\/([^/?#]+)$/.exec(mxcUri);
+  if (!matches) return undefined;
+  return { serverName: matches[1], mediaId: matches[2] };
+}
+
+function queryString(
+  params: Record<string, string | number | boolean | undefined>
+): string {
+  const parts = Object.entries(params)
+    .filter(([, value]) => value != null)
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`
+    );
+  return parts.length ? `?${parts.join('&')}` : '';
+}
+
+/**
+ * Creates a transaction ID for sending events.
+ */
+export function createTransactionId(): string {
+  return `${Date.now().toString(36)}${randomString(12)}`;
 }
 
 const CHARS = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
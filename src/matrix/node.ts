@@ -1,9 +1,10 @@
 import fetch from 'node-fetch';
-import { MatrixClient } from './MatrixClient';
+import { MatrixClient, MatrixClientOptions } from './MatrixClient';
 
 export function createMatrixClient(
   serverName: string,
-  homeserverUrl: string
+  homeserverUrl: string,
+  options?: MatrixClientOptions
 ): MatrixClient {
-  return new MatrixClient(serverName, homeserverUrl, fetch);
+  return new MatrixClient(serverName, homeserverUrl, fetch, options);
 }
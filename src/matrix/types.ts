@@ -39,6 +39,10 @@ export interface TopicEvent {
   topic: string;
 }
 
+export interface AvatarEvent {
+  url?: string;
+}
+
 export interface CanonicalAliasEvent {
   alias?: string;
   alt_aliases?: readonly string[];
@@ -114,6 +118,26 @@ export interface CreateRoomRequest {
   power_level_content_override?: PowerLevelEvent;
 }
 
+export interface SpaceHierarchyRequest {
+  from?: string;
+  limit?: number;
+  max_depth?: number;
+  suggested_only?: boolean;
+}
+
+export interface SpaceHierarchyRoom extends PublicRoomsChunk {
+  room_type?: string;
+  join_rule?: string;
+  children_state: ReadonlyArray<
+    StateEvent<SpaceChildEvent> & { origin_server_ts?: number }
+  >;
+}
+
+export interface SpaceHierarchyResponse {
+  rooms: ReadonlyArray<SpaceHierarchyRoom>;
+  next_batch?: string;
+}
+
 export interface SpaceSummaryRequest {
   suggested_only?: boolean;
   max_rooms_per_space?: number;
@@ -121,5 +145,126 @@ export interface SpaceSummaryRequest {
 
 export interface SpaceSummaryResponse {
   rooms: ReadonlyArray<PublicRoomsChunk>;
-  events: ReadonlyArray<StateEvent<SpaceChildEvent>>;
+  // room_id is the space that the child belongs to.
+  events: ReadonlyArray<StateEvent<SpaceChildEvent> & { room_id?: string }>;
+}
+
+export interface RelationsRequest {
+  from?: string;
+  limit?: number;
+}
+
+export interface RelationsResponse {
+  chunk: ReadonlyArray<PersistedStateEvent<unknown>>;
+  next_batch?: string;
+  prev_batch?: string;
+}
+
+export interface RoomEventFilter {
+  limit?: number;
+  types?: ReadonlyArray<string>;
+  not_types?: ReadonlyArray<string>;
+  senders?: ReadonlyArray<string>;
+  not_senders?: ReadonlyArray<string>;
+  rooms?: ReadonlyArray<string>;
+  not_rooms?: ReadonlyArray<string>;
+  contains_url?: boolean;
+}
+
+export interface MessagesRequest {
+  from?: string;
+  to?: string;
+  dir?: 'b' | 'f';
+  limit?: number;
+  filter?: RoomEventFilter;
+}
+
+export interface MessagesResponse {
+  start: string;
+  end?: string;
+  chunk: ReadonlyArray<PersistedStateEvent<unknown>>;
+  state?: ReadonlyArray<PersistedStateEvent<unknown>>;
+}
+
+export interface SearchRequest {
+  search_term: string;
+  keys?: ReadonlyArray<'content.body' | 'content.name' | 'content.topic'>;
+  filter?: RoomEventFilter;
+  order_by?: 'recent' | 'rank';
+  // Pass the next_batch of the previous response to get the next page.
+  next_batch?: string;
+}
+
+export interface SearchResult {
+  rank: number;
+  result: PersistedStateEvent<unknown>;
+}
+
+export interface SearchResponse {
+  count?: number;
+  results: ReadonlyArray<SearchResult>;
+  highlights: ReadonlyArray<string>;
+  next_batch?: string;
+}
+
+export interface SyncFilter {
+  event_fields?: ReadonlyArray<string>;
+  presence?: RoomEventFilter;
+  account_data?: RoomEventFilter;
+  room?: {
+    rooms?: ReadonlyArray<string>;
+    not_rooms?: ReadonlyArray<string>;
+    include_leave?: boolean;
+    state?: RoomEventFilter;
+    timeline?: RoomEventFilter;
+    ephemeral?: RoomEventFilter;
+    account_data?: RoomEventFilter;
+  };
+}
+
+export interface SyncRequest {
+  since?: string;
+  timeout?: number;
+  filter?: SyncFilter;
+  full_state?: boolean;
+  set_presence?: 'offline' | 'online' | 'unavailable';
+}
+
+export interface SyncRoom {
+  state?: { events: ReadonlyArray<PersistedStateEvent<unknown>> };
+  timeline?: {
+    events: ReadonlyArray<PersistedStateEvent<unknown>>;
+    limited?: boolean;
+    prev_batch?: string;
+  };
+}
+
+export interface SyncResponse {
+  next_batch: string;
+  rooms?: {
+    join?: Record<string, SyncRoom>;
+    invite?: Record<string, unknown>;
+    leave?: Record<string, SyncRoom>;
+  };
+}
+
+export interface LoginRequest {
+  user: string;
+  password: string;
+  device_id?: string;
+  initial_device_display_name?: string;
+}
+
+export interface LoginResponse {
+  user_id: string;
+  access_token: string;
+  device_id: string;
+  refresh_token?: string;
+  expires_in_ms?: number;
+}
+
+export interface RefreshResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in_ms?: number;
 }
@@ -0,0 +1,20 @@
+// Matches src attributes, capturing the part before the value, the quote and
+// the value itself.
+const MEDIA_SRC_REGEX = /(\ssrc\s*=\s*)(["'])(.*?)\2/gi;
+
+/**
+ * Replaces the URLs in all src attributes of the HTML. URLs for which
+ * `replace` returns undefined are left as they are.
+ */
+export function replaceMediaUrls(
+  html: string,
+  replace: (url: string) => string | undefined
+): string {
+  return html.replace(
+    MEDIA_SRC_REGEX,
+    (match, prefix: string, quote: string, url: string) => {
+      const newUrl = replace(url);
+      return newUrl ? `${prefix}${quote}${newUrl}${quote}` : match;
+    }
+  );
+}
@@ -0,0 +1,4 @@
+// The entry point for Node, with everything that needs its built-in modules.
+export * from './index';
+export * from './matrix/node';
+export * from './static/node';
@@ -0,0 +1,224 @@
+import { decodeEntities, escapeXml } from './xml';
+
+export interface SanitizeOptions {
+  // Tags to keep. Other tags are removed, but their text is kept.
+  allowedTags?: ReadonlyArray<string>;
+  // Attributes to keep, by tag.
+  allowedAttributes?: Readonly<Record<string, ReadonlyArray<string>>>;
+  // URL schemes allowed in links. Links without a scheme are always allowed.
+  allowedSchemes?: ReadonlyArray<string>;
+  // URL schemes allowed in images.
+  allowedImageSchemes?: ReadonlyArray<string>;
+}
+
+// The tags and attributes that the Matrix spec allows in
+// org.matrix.custom.html.
+export const MATRIX_ALLOWED_TAGS: ReadonlyArray<string> = [
+  'font',
+  'del',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'blockquote',
+  'p',
+  'a',
+  'ul',
+  'ol',
+  'sup',
+  'sub',
+  'li',
+  'b',
+  'i',
+  'u',
+  'strong',
+  'em',
+  'strike',
+  'code',
+  'hr',
+  'br',
+  'div',
+  'table',
+  'thead',
+  'tbody',
+  'tr',
+  'th',
+  'td',
+  'caption',
+  'pre',
+  'span',
+  'img',
+  'details',
+  'summary',
+];
+export const MATRIX_ALLOWED_ATTRIBUTES: Readonly<
+  Record<string, ReadonlyArray<string>>
+> = {
+  font: ['data-mx-bg-color', 'data-mx-color', 'color'],
+  span: ['data-mx-bg-color', 'data-mx-color', 'data-mx-spoiler'],
+  a: ['name', 'target', 'href'],
+  img: ['width', 'height', 'alt', 'title', 'src'],
+  ol: ['start'],
+  code: ['class'],
+};
+export const MATRIX_ALLOWED_SCHEMES: ReadonlyArray<string> = [
+  'https',
+  'http',
+  'ftp',
+  'mailto',
+  'magnet',
+];
+
+// Elements that can't have any content.
+const VOID_TAGS: ReadonlyArray<string> = ['br', 'hr', 'img'];
+
+// Elements whose content is removed along with them. mx-reply holds the
+// fallback for replies, which isn't part of the message.
+const DROPPED_CONTENT_TAGS: ReadonlyArray<string> = [
+  'script',
+  'style',
+  'iframe',
+  'object',
+  'embed',
+  'noscript',
+  'template',
+  'textarea',
+  'title',
+  'mx-reply',
+];
+
+// Matches comments, tags, doctypes and the text between them.
+const TOKEN_REGEX =
+  /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][\w-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|<[!?][^>]*>|[^<]+|</g;
+const ATTRIBUTE_REGEX =
+  /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const COLOR_REGEX = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Removes everything from the HTML that isn't allowed by the Matrix spec, so
+ * that it can be safely rendered. This works without a DOM, and also fixes
+ * unclosed tags.
+ */
+export function sanitizeHtml(
+  html: string,
+  options: SanitizeOptions = {}
+): string {
+  const allowedTags = options.allowedTags ?? MATRIX_ALLOWED_TAGS;
+  const allowedAttributes =
+    options.allowedAttributes ?? MATRIX_ALLOWED_ATTRIBUTES;
+  const allowedSchemes = options.allowedSchemes ?? MATRIX_ALLOWED_SCHEMES;
+  const allowedImageSchemes = options.allowedImageSchemes ?? ['mxc'];
+
+  const output: string[] = [];
+  const openTags: string[] = [];
+  // Set while inside an element whose content is dropped.
+  let droppedTag: string | undefined;
+
+  TOKEN_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_REGEX.exec(html))) {
+    const [token, slash, rawName, rawAttributes] = match;
+
+    if (rawName == null) {
+      // Text, comments and doctypes. Stray < characters are escaped.
+      if (!droppedTag && !token.startsWith('<')) {
+        output.push(escapeText(token));
+      } else if (!droppedTag && token === '<') {
+        output.push('&lt;');
+      }
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    const closing = slash === '/';
+
+    if (droppedTag) {
+      if (closing && name === droppedTag) droppedTag = undefined;
+      continue;
+    }
+    if (DROPPED_CONTENT_TAGS.includes(name)) {
+      const selfClosing = rawAttributes.trim().endsWith('/');
+      if (!closing && !selfClosing) droppedTag = name;
+      continue;
+    }
+    if (!allowedTags.includes(name)) continue;
+
+    if (closing) {
+      // Close the elements that were left open inside this one.
+      const index = openTags.lastIndexOf(name);
+      if (index < 0) continue;
+      for (const tag of openTags.splice(index).reverse()) {
+        output.push(`</${tag}>`);
+      }
+      continue;
+    }
+
+    const attributes = parseAttributes(rawAttributes)
+      .filter(([attribute, value]) => {
+        if (!(allowedAttributes[name] ?? []).includes(attribute)) return false;
+        switch (attribute) {
+          case 'href':
+            return isAllowedUrl(value, allowedSchemes, true);
+          case 'src':
+            return isAllowedUrl(value, allowedImageSchemes, false);
+          case 'color':
+          case 'data-mx-color':
+          case 'data-mx-bg-color':
+            return COLOR_REGEX.test(value);
+          case 'class':
+            // Only syntax highlighting classes are allowed.
+            return /^language-[\w-]+$/.test(value);
+          default:
+            return true;
+        }
+      })
+      .map(([attribute, value]) => ` ${attribute}="${escapeXml(value)}"`);
+
+    output.push(`<${name}${attributes.join('')}>`);
+    if (!VOID_TAGS.includes(name)) {
+      openTags.push(name);
+    }
+  }
+
+  for (const tag of openTags.reverse()) {
+    output.push(`</${tag}>`);
+  }
+
+  return output.join('');
+}
+
+function parseAttributes(
+  rawAttributes: string
+): ReadonlyArray<[string, string]> {
+  const attributes: Array<[string, string]> = [];
+  ATTRIBUTE_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_REGEX.exec(rawAttributes))) {
+    const [, name, doubleQuoted, singleQuoted, unquoted] = match;
+    const value = doubleQuoted ?? singleQuoted ?? unquoted ?? '';
+    attributes.push([name.toLowerCase(), decodeEntities(value)]);
+  }
+  return attributes;
+}
+
+function isAllowedUrl(
+  url: string,
+  allowedSchemes: ReadonlyArray<string>,
+  allowRelative: boolean
+): boolean {
+  // Browsers ignore whitespace and control characters in schemes.
+  // eslint-disable-next-line no-control-regex
+  const normalized = url.replace(/[\u0000- ]/g, '').toLowerCase();
+  const scheme = /^([a-z][a-z0-9+.-]*):/.exec(normalized)?.[1];
+  if (scheme == null) {
+    return allowRelative && !normalized.startsWith('//');
+  }
+  return allowedSchemes.includes(scheme);
+}
+
+function escapeText(text: string): string {
+  // Keep entities that are already there.
+  return text.replace(/&(?!#?\w+;)/g, '&amp;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,191 @@
+import type { Post } from './types';
+import { escapeXml } from './xml';
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  snippets: ReadonlyArray<string>;
+}
+
+interface IndexedPost {
+  // Changes whenever the indexed parts of the post change.
+  version: string;
+  text: string;
+  length: number;
+}
+
+// Words in titles count more than the ones in the text.
+const TITLE_WEIGHT = 3;
+
+// Whitespace and punctuation, which separate words.
+const SEPARATOR_REGEX = /[\s!-/:-@[-`{-~\u00a0-\u00bf\u2000-\u206f]+/;
+
+const SNIPPET_RADIUS = 80;
+const MAX_SNIPPETS = 3;
+
+/**
+ * An inverted index of posts for full-text search. Posts can be added, updated
+ * and removed one at a time, so it can be kept up to date cheaply.
+ */
+export class SearchIndex {
+  // Terms mapped to the post IDs they appear in and their weights.
+  private readonly terms = new Map<string, Map<string, number>>();
+  private readonly posts = new Map<string, IndexedPost>();
+
+  getPostIds(): ReadonlyArray<string> {
+    return Array.from(this.posts.keys());
+  }
+
+  /**
+   * Returns the version the post was indexed with, to check whether it needs
+   * to be indexed again.
+   */
+  getVersion(postId: string): string | undefined {
+    return this.posts.get(postId)?.version;
+  }
+
+  /**
+   * Adds the post to the index, or updates it if it changed. By default the
+   * version is derived from the post, but any string that changes along with
+   * it works.
+   */
+  update(post: Post, version = getPostVersion(post)): void {
+    if (this.posts.get(post.id)?.version === version) return;
+
+    this.remove(post.id);
+
+    const weights = new Map<string, number>();
+    const addTerms = (text: string, weight: number) => {
+      for (const term of tokenize(text)) {
+        weights.set(term, (weights.get(term) ?? 0) + weight);
+      }
+    };
+    addTerms(post.title, TITLE_WEIGHT);
+    addTerms(post.summary ?? '', 1);
+    addTerms(post.tags.join(' '), TITLE_WEIGHT);
+    addTerms(post.text, 1);
+
+    let length = 0;
+    for (const [term, weight] of Array.from(weights)) {
+      const postWeights = this.terms.get(term) ?? new Map<string, number>();
+      postWeights.set(post.id, weight);
+      this.terms.set(term, postWeights);
+      length += weight;
+    }
+
+    this.posts.set(post.id, { version, text: post.text, length });
+  }
+
+  remove(postId: string): void {
+    if (!this.posts.delete(postId)) return;
+
+    for (const [term, postWeights] of Array.from(this.terms)) {
+      postWeights.delete(postId);
+      if (!postWeights.size) {
+        this.terms.delete(term);
+      }
+    }
+  }
+
+  /**
+   * Returns the posts that match any of the words in the query, best matches
+   * first. Scores are only meaningful relative to each other.
+   */
+  search(query: string, limit = 10): ReadonlyArray<SearchHit> {
+    const queryTerms = tokenize(query);
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const postWeights = this.terms.get(term);
+      if (!postWeights) continue;
+
+      // Rare terms say more about a post than common ones.
+      const idf = Math.log(1 + this.posts.size / postWeights.size);
+      for (const [postId, weight] of Array.from(postWeights)) {
+        const { length } = this.posts.get(postId) as IndexedPost;
+        const score = (weight / Math.sqrt(length)) * idf;
+        scores.set(postId, (scores.get(postId) ?? 0) + score);
+      }
+    }
+
+    return Array.from(scores)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, limit)
+      .map(([id, score]) => ({
+        id,
+        score,
+        snippets: createSnippets(
+          (this.posts.get(id) as IndexedPost).text,
+          queryTerms
+        ),
+      }));
+  }
+}
+
+function getPostVersion(post: Post): string {
+  return [
+    post.edited_ms ?? post.created_ms,
+    post.title,
+    post.summary,
+    post.tags.join(','),
+  ].join('\n');
+}
+
+/**
+ * Splits text into lowercase words.
+ */
+export function tokenize(text: string): ReadonlyArray<string> {
+  return text
+    .toLowerCase()
+    .split(SEPARATOR_REGEX)
+    .filter((term) => term.length > 0);
+}
+
+/**
+ * Returns the parts of the text around the words it contains. The snippets are
+ * HTML, with the words wrapped in <mark> elements.
+ */
+export function createSnippets(
+  text: string,
+  terms: ReadonlyArray<string>
+): ReadonlyArray<string> {
+  if (!terms.length) return [];
+
+  // Terms don't contain punctuation, so they're safe to use here.
+  const termRegex = new RegExp(`(${terms.join('|')})`, 'gi');
+
+  const snippets: string[] = [];
+  let end = 0;
+  let match: RegExpExecArray | null;
+  while (snippets.length < MAX_SNIPPETS && (match = termRegex.exec(text))) {
+    const start = wordBoundary(text, match.index - SNIPPET_RADIUS, -1);
+    end = wordBoundary(text, match.index + SNIPPET_RADIUS, 1);
+
+    // Splitting with a capture group puts the matches at odd indexes.
+    const snippet = text
+      .slice(start, end)
+      .replace(/\s+/g, ' ')
+      .split(termRegex)
+      .map((part, i) =>
+        i % 2 ? `<mark>${escapeXml(part)}</mark>` : escapeXml(part)
+      )
+      .join('');
+    snippets.push(
+      `${start > 0 ? '…' : ''}${snippet.trim()}${end < text.length ? '…' : ''}`
+    );
+    // Continue after the snippet, so that they don't overlap.
+    termRegex.lastIndex = end;
+  }
+
+  return snippets;
+}
+
+function wordBoundary(text: string, index: number, direction: 1 | -1): number {
+  if (index <= 0) return 0;
+  if (index >= text.length) return text.length;
+
+  while (index > 0 && index < text.length && !/\s/.test(text[index])) {
+    index += direction;
+  }
+  return index;
+}
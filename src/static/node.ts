@@ -0,0 +1,242 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { BlogService } from '../BlogService';
+import { generateAtomFeed } from '../feed';
+import type { Blog, Post } from '../types';
+import { escapeXml } from '../xml';
+
+export interface StaticSiteTemplates {
+  index(blog: Blog, posts: ReadonlyArray<Post>): string;
+  post(blog: Blog, post: Post): string;
+  tag?(blog: Blog, tag: string, posts: ReadonlyArray<Post>): string;
+}
+
+export interface StaticSiteOptions {
+  // The URL the site is going to be served from, used in the feed and sitemap.
+  baseUrl: string;
+  // Re-render all posts, e.g. after the templates have changed.
+  force?: boolean;
+}
+
+export interface StaticSiteResult {
+  written: ReadonlyArray<string>;
+  skipped: ReadonlyArray<string>;
+  removed: ReadonlyArray<string>;
+}
+
+interface Manifest {
+  posts: Record<string, ManifestEntry>;
+}
+
+interface ManifestEntry {
+  file: string;
+  version: string;
+}
+
+const MANIFEST_FILE = '.matrix-blog.json';
+
+/**
+ * Renders all published posts of a blog into a directory of static HTML files:
+ *
+ * - index.html
+ * - <slug>/index.html for each post
+ * - tags/<tag>/index.html for each tag, if there's a tag template
+ * - feed.xml (Atom) and sitemap.xml
+ *
+ * Posts that haven't changed since the previous export are not rendered again.
+ */
+export async function exportStaticSite(
+  blogService: BlogService,
+  blogId: string,
+  outDir: string,
+  templates: StaticSiteTemplates,
+  options: StaticSiteOptions
+): Promise<StaticSiteResult> {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const [blog, allPosts] = await Promise.all([
+    blogService.getBlog(blogId),
+    blogService.getFullPosts(blogId, { status: 'published' }),
+  ]);
+
+  // Posts without a slug have no place to live in.
+  const posts = allPosts
+    .filter((post) => post.slug && isSafePathSegment(post.slug))
+    .sort((a, b) => (b.published_ms ?? 0) - (a.published_ms ?? 0));
+
+  const previous = await readManifest(outDir);
+  const manifest: Manifest = { posts: {} };
+  const written: string[] = [];
+  const skipped: string[] = [];
+  const removed: string[] = [];
+
+  const write = async (file: string, contents: string) => {
+    const fullPath = path.join(outDir, file);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, contents, 'utf8');
+    written.push(file);
+  };
+
+  // Posts
+  for (const post of posts) {
+    const file = path.join(post.slug as string, 'index.html');
+    const version = getPostVersion(post);
+    manifest.posts[post.id] = { file, version };
+
+    const entry = previous.posts[post.id];
+    if (
+      !options.force &&
+      entry?.file === file &&
+      entry.version === version &&
+      (await exists(path.join(outDir, file)))
+    ) {
+      skipped.push(file);
+      continue;
+    }
+
+    await write(file, templates.post(blog, post));
+  }
+
+  // Remove pages of posts that are gone or have moved to a different slug,
+  // unless another post has taken their place.
+  const files = Object.values(manifest.posts).map((entry) => entry.file);
+  for (const entry of Object.values(previous.posts)) {
+    if (files.includes(entry.file)) continue;
+    await removeFile(path.join(outDir, entry.file));
+    removed.push(entry.file);
+  }
+
+  // Index
+  await write('index.html', templates.index(blog, posts));
+
+  // Tags
+  const tagFiles: string[] = [];
+  if (templates.tag) {
+    for (const [tag, taggedPosts] of Array.from(groupByTag(posts))) {
+      const file = path.join('tags', slugifyTag(tag), 'index.html');
+      await write(file, templates.tag(blog, tag, taggedPosts));
+      tagFiles.push(file);
+    }
+  }
+
+  // Feed
+  const postUrl = (post: Post) =>
+    `${baseUrl}/${encodeURIComponent(post.slug as string)}/`;
+  await write(
+    'feed.xml',
+    generateAtomFeed(blog, posts, {
+      baseUrl: `${baseUrl}/`,
+      feedUrl: `${baseUrl}/feed.xml`,
+      postUrl,
+    })
+  );
+
+  // Sitemap
+  const urls = [
+    sitemapUrl(`${baseUrl}/`),
+    ...posts.map((post) =>
+      sitemapUrl(
+        postUrl(post),
+        post.edited_ms ?? post.published_ms ?? post.created_ms
+      )
+    ),
+    ...tagFiles.map((file) => sitemapUrl(`${baseUrl}/${toUrlPath(file)}`)),
+  ];
+  await write(
+    'sitemap.xml',
+    [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...urls,
+      '</urlset>',
+    ].join('\n')
+  );
+
+  await fs.writeFile(
+    path.join(outDir, MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2),
+    'utf8'
+  );
+
+  return { written, skipped, removed };
+}
+
+function getPostVersion(post: Post): string {
+  // Content edits bump the timestamps, metadata is stored in state events so
+  // it has to be compared directly.
+  return JSON.stringify([
+    post.edited_ms ?? post.created_ms,
+    post.published_ms,
+    post.title,
+    post.summary,
+    post.tags,
+  ]);
+}
+
+async function readManifest(outDir: string): Promise<Manifest> {
+  try {
+    const json = await fs.readFile(path.join(outDir, MANIFEST_FILE), 'utf8');
+    return JSON.parse(json) as Manifest;
+  } catch (e) {
+    // No previous export, so everything needs to be written.
+    return { posts: {} };
+  }
+}
+
+async function removeFile(file: string): Promise<void> {
+  try {
+    await fs.unlink(file);
+  } catch (e) {
+    // It's fine if it's already gone.
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+function groupByTag(
+  posts: ReadonlyArray<Post>
+): Map<string, ReadonlyArray<Post>> {
+  const groups = new Map<string, Post[]>();
+  for (const post of posts) {
+    for (const tag of post.tags) {
+      const group = groups.get(tag) ?? [];
+      group.push(post);
+      groups.set(tag, group);
+    }
+  }
+  return groups;
+}
+
+function slugifyTag(tag: string): string {
+  return (
+    tag
+      .toLowerCase()
+      .replace(/[\s/\\?#%&:;"'<>|*]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'tag'
+  );
+}
+
+function isSafePathSegment(segment: string): boolean {
+  return segment !== '.' && segment !== '..' && !/[/\\]/.test(segment);
+}
+
+// Turns tags/foo/index.html into tags/foo/
+function toUrlPath(file: string): string {
+  const dirs = file.split(path.sep).slice(0, -1);
+  return `${dirs.map(encodeURIComponent).join('/')}/`;
+}
+
+function sitemapUrl(url: string, lastModifiedMs?: number): string {
+  const lastmod =
+    lastModifiedMs != null
+      ? `<lastmod>${new Date(lastModifiedMs).toISOString()}</lastmod>`
+      : '';
+  return `<url><loc>${escapeXml(url)}</loc>${lastmod}</url>`;
+}
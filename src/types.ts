@@ -3,28 +3,190 @@ export interface Blog {
   title?: string;
   description?: string;
 }
+export interface NewBlog {
+  title: string;
+  description?: string;
+  // The local part of the blog's alias. Aliases starting with the room prefix
+  // belong to posts.
+  alias?: string;
+}
+export type PostStatus = 'draft' | 'published';
 export interface PostMetadata {
   id: string;
   title?: string;
   summary?: string;
   slug?: string;
+  status: PostStatus;
+  tags: ReadonlyArray<string>;
+  pinned: boolean;
+  // An HTTP URL of the cover image.
+  cover_image?: string;
+}
+export interface PostFilter {
+  status?: PostStatus;
+  tag?: string;
+}
+export type PostSort = 'published' | 'created' | 'manual';
+export interface PostQuery extends PostFilter {
+  // Pinned posts always come first. Defaults to 'published', newest first.
+  sort?: PostSort;
+  limit?: number;
+  // The ID of the last post of the previous page.
+  cursor?: string;
+}
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+export type BlogRole = 'owner' | 'editor' | 'author';
+export interface PostAuthor {
+  id: string;
+  name?: string;
+  // An HTTP URL of the avatar.
+  avatar_url?: string;
+}
+export interface BlogMember extends PostAuthor {
+  role: BlogRole;
 }
 export interface PostContent {
+  author: PostAuthor;
   text: string;
   html: string;
+  // The Markdown source, for posts written in Markdown.
+  markdown?: string;
   created_ms: number;
   edited_ms?: number;
   published_ms?: number;
+  scheduled_ms?: number;
 }
 export interface NewPost {
   title: string;
   summary?: string;
   slug?: string;
+  status?: PostStatus;
+  tags?: ReadonlyArray<string>;
+  // An mxc:// URI of the cover image, as returned by uploadMedia.
+  cover_image?: string;
+  // Either Markdown, which text and html are derived from, or both text and
+  // html.
+  markdown?: string;
+  text?: string;
+  html?: string;
+}
+export interface PostRevision {
+  event_id: string;
   text: string;
   html: string;
+  markdown?: string;
+  sender: string;
+  created_ms: number;
+}
+export interface Comment {
+  id: string;
+  author: string;
+  text: string;
+  html?: string;
+  created_ms: number;
+}
+export interface CommentPage {
+  comments: ReadonlyArray<Comment>;
+  // Pass as `from` to get the next page. Unset when there are no more comments.
+  next?: string;
+}
+export interface PageRequest {
+  from?: string;
+  limit?: number;
 }
 export type Post = PostMetadata & PostContent & { title: string };
 
+export interface SearchOptions extends PostFilter {
+  limit?: number;
+}
+export interface PostSearchResult extends PostMetadata {
+  // Higher is better. Only meaningful within the same search.
+  score: number;
+  // Parts of the text around the matches, as HTML with the matches wrapped
+  // in <mark> elements.
+  snippets: ReadonlyArray<string>;
+}
+
+export interface PostLookup {
+  post: Post;
+  // Set to the current slug when the post was found by one of its old slugs.
+  redirect?: string;
+}
+
+export type BlogProblemType =
+  // The post room can't be read, e.g. because it was left.
+  | 'inaccessible_post'
+  | 'missing_parent'
+  | 'missing_content'
+  | 'redacted_content'
+  // The canonical alias doesn't start with the room prefix.
+  | 'invalid_alias';
+export interface BlogProblem {
+  type: BlogProblemType;
+  postId: string;
+  message: string;
+  fixable: boolean;
+}
+export interface BlogCheckReport {
+  blogId: string;
+  problems: ReadonlyArray<BlogProblem>;
+}
+export interface BlogRepairReport {
+  blogId: string;
+  // In a dry run, the problems that would be fixed.
+  fixed: ReadonlyArray<BlogProblem>;
+  remaining: ReadonlyArray<BlogProblem>;
+}
+
+// A self-contained copy of a blog, which can be serialized to JSON. All
+// media URLs in it are mxc:// URIs, which are keys of `media`.
+export interface BlogArchive {
+  version: 1;
+  exported_ms: number;
+  blog: NewBlog;
+  // Oldest first.
+  posts: ReadonlyArray<ArchivedPost>;
+  media: Readonly<Record<string, ArchivedMedia>>;
+}
+export interface ArchivedPost {
+  title: string;
+  summary?: string;
+  slug?: string;
+  status: PostStatus;
+  tags: ReadonlyArray<string>;
+  pinned: boolean;
+  cover_image?: string;
+  author: string;
+  text: string;
+  html: string;
+  markdown?: string;
+  created_ms: number;
+  edited_ms?: number;
+  published_ms?: number;
+  scheduled_ms?: number;
+  // Oldest first, the last one being the current content.
+  revisions: ReadonlyArray<ArchivedRevision>;
+}
+export interface ArchivedRevision {
+  text: string;
+  html: string;
+  markdown?: string;
+  sender: string;
+  created_ms: number;
+}
+export interface ArchivedMedia {
+  content_type: string;
+  // Base64 encoded.
+  data: string;
+}
+export interface BlogImportResult {
+  blogId: string;
+  posts: ReadonlyArray<PostMetadata>;
+}
+
 export interface BlogWithPostMetadata extends Blog {
   posts: ReadonlyArray<PostMetadata>;
 }